@@ -1,14 +1,64 @@
 import { Hono } from 'hono'
 import { handle } from 'hono/vercel'
+import avifEncoderWasm from '@jsquash/avif/codec/enc/avif_enc.wasm?module'
+import webpEncoderWasm from '@jsquash/webp/codec/enc/webp_enc_simd.wasm?module'
+import { createProxyRouter, createGenericProxyApp } from '../lib/proxy-handler'
+import { initImageEncoder } from '../lib/image-transform'
+import { getProxySources, getGenericProxySource } from '../lib/proxy-utils'
+import { rateLimit } from '../lib/rate-limit'
+import { getMetricsStore, formatPrometheusMetrics, PROMETHEUS_CONTENT_TYPE } from '../lib/metrics'
+import { getConfig, injectConfig, withConfig } from '../lib/config'
+import type { ConfigEnv } from '../lib/config'
 
 export const config = {
   runtime: 'edge'
 }
 
-const app = new Hono().basePath('/api')
+// 启动时加载并校验配置，配置不合法时直接报错（中间件在请求时读取当前配置）
+getConfig()
 
-app.get('/', (c) => {
+// 启用 AVIF 输出与有损 WebP 编码（初始化失败时记录错误并停用对应格式）
+initImageEncoder('avif', avifEncoderWasm)
+initImageEncoder('webp', webpEncoderWasm)
+
+const api = new Hono().basePath('/api')
+
+api.get('/', (c) => {
   return c.json({ message: 'Hello Hono!' })
 })
 
+// 全部代理源的 Prometheus 指标
+api.get('/metrics', async (c) => {
+  return c.body(formatPrometheusMetrics(await getMetricsStore().snapshot()), 200, {
+    'Content-Type': PROMETHEUS_CONTENT_TYPE
+  })
+})
+
+const app = new Hono<ConfigEnv>()
+
+app.use('*', injectConfig())
+
+// 代理源下的 JSON 端点，按请求次数限流
+const SERVICE_ROUTES = ['/stats', '/health', '/metrics']
+const imageSources = [...getProxySources(), getGenericProxySource()]
+
+// 是否为图片请求（代理源路径下除统计/健康/指标端点外的请求）
+function isImageRequest(path: string): boolean {
+  return imageSources.some(source => (path === source.proxyPath || path.startsWith(`${source.proxyPath}/`))
+    && !SERVICE_ROUTES.includes(path.slice(source.proxyPath.length)))
+}
+
+// 限流：JSON 接口按请求次数，图片路由按响应字节数（中间件需在路由之前注册）
+const apiRateLimit = withConfig(config => rateLimit({ name: 'api', ...config.rateLimit.api, apiKeys: config.rateLimit.apiKeys }))
+const imageRateLimit = withConfig(config => rateLimit({ name: 'image', cost: 'bytes', ...config.rateLimit.image, apiKeys: config.rateLimit.apiKeys }))
+app.use('/api/*', (c, next) => (isImageRequest(c.req.path) ? imageRateLimit(c, next) : apiRateLimit(c, next)))
+
+app.route('/', api)
+
+// 图片代理：所有已注册代理源（/api/wallpaper、/api/bing、/api/findaphoto ...），签名密钥在请求时读取
+app.route('/', createProxyRouter(getProxySources()))
+
+// 通用图片代理：/api/proxy?url=
+app.route('/', createGenericProxyApp())
+
 export default handle(app)
@@ -1,77 +1,340 @@
 import { Hono } from 'hono'
 import { handle } from 'hono/vercel'
 import type { Context } from 'hono'
-import { getWallpaperList, getAvailableSources, getBingWallpaperList } from '../../lib/wallpaper-utils'
+import {
+  getWallpaperList,
+  getAvailableSources,
+  getBingWallpaperList,
+  getBingWallpaper,
+  getRandomWallpaper,
+  loadWallpaperCatalog,
+  getBingListVersion,
+  getWallpaperCatalogStatus,
+  getWallpaperCatalogReports,
+  getBingMarketStatus,
+  getBingCatalogStatus
+} from '../../lib/wallpaper-utils'
+import { parseWallpaperListOptions } from '../../lib/wallpaper-filter'
+import { getRecentHistoryStore, rememberServed, MAX_SESSION_TOKEN_LENGTH } from '../../lib/recent-history'
+import { parseImageOptimization, resolveProxyUrl, getUrlSigningConfig, getPublicBaseUrl } from '../../lib/proxy-utils'
+import { parseBingListOptions, parseBingImageOptions, getBingTodayMaxAge, BING_ARCHIVE_MAX_AGE } from '../../lib/bing'
+import type { BingImageOptions } from '../../lib/bing'
+import { clampPageSize } from '../../lib/cursor'
+import { versionEtag, CATALOG_VERSION_HEADER } from '../../lib/conditional'
+import { catalogRefresh, setCatalogHeaders } from '../../lib/catalog-cache'
+import { rateLimit } from '../../lib/rate-limit'
+import { getConfig, injectConfig, withConfig } from '../../lib/config'
+import type { ConfigEnv } from '../../lib/config'
+import { queryValidator } from '../../lib/schema'
+import type { FieldError } from '../../lib/schema'
+import {
+  getWallpaperListQuery,
+  RANDOM_QUERY,
+  getBingListQuery,
+  getBingImageQuery,
+  getV1Routes,
+  buildOpenApiDocument,
+  renderDocsPage
+} from '../../lib/openapi'
 
 export const config = {
   runtime: 'edge'
 }
 
-const app = new Hono().basePath('/api/v1')
+// 启动时加载并校验配置，配置不合法时直接报错（路由与中间件在请求时读取当前配置）
+getConfig()
+
+// 导出应用本身，测试中通过 app.request() 直接调用
+export const app = new Hono<ConfigEnv>().basePath('/api/v1')
+
+// 路由通过 c.get('config') 读取配置
+app.use('*', injectConfig())
+
+// 按客户端 IP / API Key 限流
+app.use('*', withConfig(config => rateLimit({
+  name: 'api',
+  ...config.rateLimit.api,
+  apiKeys: config.rateLimit.apiKeys,
+  onLimited: (c, retryAfter) => c.json({
+    code: 429,
+    data: { retryAfter },
+    message: 'Too many requests'
+  }, 429)
+})))
+
+// 基于数据版本的 ETag，客户端可通过 If-None-Match 重新验证
+app.use('*', versionEtag())
+
+// 数据过期时先返回旧数据，后台刷新交给运行时执行完
+app.use('*', catalogRefresh())
+
+// 参数不合法时统一返回 400 与逐字段的错误
+function invalidQuery(c: Context, errors: FieldError[]) {
+  return c.json({
+    code: 400,
+    data: null,
+    message: 'Invalid query parameters',
+    errors
+  }, 400)
+}
 
 /**
- * 从db/all.json中获取数据
+ * 从数据源（CATALOG_SOURCES，默认为 all.json）中获取数据
  * path: /v1/getWallpaperList
  * 
  * params:
  * - page: number (可选，默认为1)
- * - source: string (可选，按来源过滤)
- * - pageSize: number (可选，默认为20)
+ * - cursor: string (可选，上一页返回的 nextCursor，指定时忽略 page；数据更新后仍按原版本翻页，原版本不可用时从上一页最后一项之后继续)
+ * - source: string (可选，按来源过滤，多个来源用逗号分隔)
+ * - pageSize: number (可选，默认为 DEFAULT_PAGE_SIZE（20），最大为 MAX_PAGE_SIZE（100）)
+ * - color: string (可选，十六进制颜色，按调色板中最接近的颜色匹配)
+ * - colorTolerance: number (可选，颜色匹配容差 0~765，默认为100)
+ * - minWidth / minHeight: number (可选，最低分辨率)
+ * - aspect: landscape | portrait | ultrawide (可选，宽高比)
+ * - sort: rate | like | random (可选，排序方式)
+ * - order: asc | desc (可选，rate/like 的排序方向，默认为desc)
+ * - seed: string (可选，随机排序的种子)
+ * - w / h / q / f / fit: (可选，图片优化参数，指定时每项额外返回 src.optimizedUrl)
  * 
  * response:
  * - code: number
  * - data:
- *   - list: []
+ *   - list: [] (src 中补充 proxyUrl、thumbnailUrl，根地址为 PROXY_PUBLIC_BASE_URL 或当前请求的域名)
  *   - total: number
  *   - page: number
  *   - totalPage: number
+ *   - seed: string (仅随机排序时返回)
+ *   - version: string (数据版本)
+ *   - nextCursor: string | null (下一页的游标)
+ *   - catalog: { freshness: fresh | stale, age: number, fetchedAt: string } (数据新鲜度，同时通过 X-Catalog-Freshness、X-Catalog-Age 响应头返回)
  * - message: string
  */
-app.get('/getWallpaperList', async (c: Context) => {
-  const { page, source, pageSize } = c.req.query()
+app.get('/getWallpaperList', withConfig(config => queryValidator(getWallpaperListQuery(config), invalidQuery)), async (c: Context<ConfigEnv>) => {
+  const query = c.req.query()
+  const { page, pageSize, cursor } = query
+  
+  // 解析过滤与排序参数、图片优化参数
+  const { options, error, field } = parseWallpaperListOptions(query)
+  if (!options) {
+    return invalidQuery(c, [{ field, message: error }])
+  }
+  const { optimization, error: optimizationError, field: optimizationField } = parseImageOptimization(query)
+  if (optimizationError) {
+    return invalidQuery(c, [{ field: optimizationField || 'query', message: optimizationError }])
+  }
   
-  // 解析pageSize参数
-  const parsedPageSize = pageSize ? parseInt(pageSize, 10) : 20
+  // 解析pageSize参数（限制在1~MAX_PAGE_SIZE）
+  const parsedPageSize = clampPageSize(pageSize, c.get('config').pagination)
   
-  const data = await getWallpaperList(page, source, parsedPageSize)
+  const data = await getWallpaperList(page, options, parsedPageSize, getPublicBaseUrl(c.req.url, c.get('config').publicBaseUrl), optimization, cursor)
   
   // 根据返回的code设置正确的HTTP状态码
   if (data.code === 200) {
+    // 随机排序且未指定种子时每次结果不同，不生成 ETag
+    if (options.sort !== 'random' || options.seed || cursor) {
+      c.header(CATALOG_VERSION_HEADER, data.data.version)
+    }
+    if (data.data.catalog) {
+      setCatalogHeaders(c, data.data.catalog)
+    }
     return c.json(data)
   } else if (data.code === 400) {
-    return c.json(data, 400)
+    return invalidQuery(c, data.errors || [])
+  } else if (data.code === 410) {
+    return c.json(data, 410)
   } else {
     return c.json(data, 500)
   }
 })
 
+/**
+ * 随机获取一张壁纸
+ * path: /v1/random
+ * 
+ * params:
+ * - source / color / colorTolerance / minWidth / minHeight / aspect: 同 getWallpaperList
+ * - seed: string (可选，相同种子与过滤条件返回同一张壁纸)
+ * - session: string (可选，会话令牌，也可通过 X-Session-Token 请求头传递，用于避开最近返回过的壁纸)
+ * - redirect: 1 (可选，302 重定向到代理后的图片地址，可直接用于 CSS background-image)
+ * - w / h / q / f / fit: (可选，图片优化参数，redirect 模式下附加到图片地址，否则返回 src.optimizedUrl)
+ * 
+ * response:
+ * - code: number
+ * - data: WallpaperItem
+ * - message: string
+ */
+app.get('/random', queryValidator(RANDOM_QUERY, invalidQuery), async (c: Context<ConfigEnv>) => {
+  const query = c.req.query()
+  const redirect = query.redirect === '1' || query.redirect === 'true'
+  
+  const { options, error, field } = parseWallpaperListOptions(query)
+  if (!options) {
+    return invalidQuery(c, [{ field, message: error }])
+  }
+  const { optimization, error: optimizationError, field: optimizationField } = parseImageOptimization(query)
+  if (optimizationError) {
+    return invalidQuery(c, [{ field: optimizationField || 'query', message: optimizationError }])
+  }
+  
+  // 请求头中的会话令牌不经过查询参数校验
+  const session = query.session || c.req.header('x-session-token')
+  if (session && session.length > MAX_SESSION_TOKEN_LENGTH) {
+    return invalidQuery(c, [{ field: 'session', message: 'Invalid session token' }])
+  }
+  
+  // 会话记录不可用时忽略，不影响随机结果
+  const store = getRecentHistoryStore()
+  const recent = session ? await store.get(session).catch(() => []) : []
+  
+  const baseUrl = getPublicBaseUrl(c.req.url, c.get('config').publicBaseUrl)
+  const data = await getRandomWallpaper(options, recent, baseUrl, optimization)
+  
+  // 每次结果不同，禁止缓存
+  c.header('Cache-Control', 'no-store')
+  setCatalogHeaders(c, getWallpaperCatalogStatus())
+  
+  if (!data.data) {
+    return c.json(data, data.code === 404 ? 404 : 500)
+  }
+  
+  if (session) {
+    await rememberServed(session, data.data._id, store)
+      .catch(error => console.error('Recent history store error:', error))
+  }
+  
+  if (redirect) {
+    return c.redirect(await resolveProxyUrl(data.data.src.rawSrc, baseUrl, optimization, getUrlSigningConfig() || undefined), 302)
+  }
+  
+  return c.json(data)
+})
+
 /**
  * 获取每日bing的壁纸
  * path: /v1/getBingWallpaperList
  * 
+ * params:
+ * - mkt: string (可选，市场代码，默认为 BING_DEFAULT_MARKET（en-US），如 zh-CN、ja-JP、de-DE)
+ * - idx: number (可选，起始偏移 0~7，0为今天)
+ * - n: number (可选，数量 1~8，默认为8)
+ * - from / to: string (可选，yyyymmdd，按日期范围查询历史归档，to 默认为今天)
+ * 
  * response:
  * - code: number
  * - data:
- *   - list: Bing壁纸数组
+ *   - list: Bing壁纸数组（variants 为各分辨率经代理的图片地址，如 UHD、1920x1080、1080x1920）
  *   - total: number
  *   - date: string
+ *   - market: string
+ *   - catalog: { freshness, age, fetchedAt } (数据新鲜度，同 getWallpaperList)
  * - message: string
  */
-app.get('/getBingWallpaperList', async (c: Context) => {
-  const data = await getBingWallpaperList()
+app.get('/getBingWallpaperList', withConfig(config => queryValidator(getBingListQuery(config), invalidQuery)), async (c: Context<ConfigEnv>) => {
+  const { options, error, field } = parseBingListOptions(c.req.query(), c.get('config').bing.defaultMarket)
+  if (!options) {
+    return invalidQuery(c, [{ field, message: error }])
+  }
+  
+  const data = await getBingWallpaperList(options, getPublicBaseUrl(c.req.url, c.get('config').publicBaseUrl))
   
   // 根据返回的code设置正确的HTTP状态码
   if (data.code === 200) {
+    c.header(CATALOG_VERSION_HEADER, getBingListVersion(data.data.list))
+    if (data.data.catalog) {
+      setCatalogHeaders(c, data.data.catalog)
+    }
     return c.json(data)
   } else {
     return c.json(data, 500)
   }
 })
 
+// 查询单张Bing壁纸，并按日期设置缓存：当天的缓存到下次更新，历史日期长期缓存
+async function loadBingWallpaper(c: Context<ConfigEnv>, options: BingImageOptions) {
+  const data = await getBingWallpaper(options.market, options.date, getPublicBaseUrl(c.req.url, c.get('config').publicBaseUrl))
+  
+  if (data.data) {
+    const maxAge = options.date ? BING_ARCHIVE_MAX_AGE : getBingTodayMaxAge(data.data)
+    c.header('Cache-Control', `public, max-age=${maxAge}`)
+    c.header(CATALOG_VERSION_HEADER, getBingListVersion([data.data]))
+    setCatalogHeaders(c, getBingMarketStatus(options.market))
+  }
+  return data
+}
+
+/**
+ * 获取某一天Bing壁纸的标题与版权信息（用于图片说明）
+ * path: /v1/bing/today/caption 或 /v1/bing/{yyyymmdd}/caption
+ * 
+ * params:
+ * - mkt: string (可选，市场代码，默认为 BING_DEFAULT_MARKET)
+ * 
+ * response:
+ * - code: number
+ * - data:
+ *   - date: string
+ *   - market: string
+ *   - title: string
+ *   - copyright: string
+ *   - copyrightlink: string
+ * - message: string
+ */
+app.get('/bing/:date/caption', withConfig(config => queryValidator(getBingImageQuery(config), invalidQuery)), async (c: Context<ConfigEnv>) => {
+  const { options, error, field } = parseBingImageOptions(c.req.param('date') || '', c.req.query(), c.get('config').bing.defaultMarket)
+  if (!options) {
+    return invalidQuery(c, [{ field, message: error }])
+  }
+  
+  const data = await loadBingWallpaper(c, options)
+  if (!data.data) {
+    return c.json({ ...data, data: null }, data.code === 404 ? 404 : 500)
+  }
+  
+  return c.json({
+    code: 200,
+    data: {
+      date: data.data.startdate,
+      market: options.market,
+      title: data.data.title,
+      copyright: data.data.copyright,
+      copyrightlink: data.data.copyrightlink
+    },
+    message: 'Success'
+  })
+})
+
+/**
+ * 重定向到某一天Bing壁纸经代理的图片，可直接用作 <img src>
+ * path: /v1/bing/today 或 /v1/bing/{yyyymmdd}
+ * 
+ * params:
+ * - mkt: string (可选，市场代码，默认为 BING_DEFAULT_MARKET)
+ * - res: string (可选，分辨率，默认为1920x1080，如 UHD、1366x768、1080x1920)
+ */
+app.get('/bing/:date', withConfig(config => queryValidator(getBingImageQuery(config), invalidQuery)), async (c: Context<ConfigEnv>) => {
+  const { options, error, field } = parseBingImageOptions(c.req.param('date') || '', c.req.query(), c.get('config').bing.defaultMarket)
+  if (!options) {
+    return invalidQuery(c, [{ field, message: error }])
+  }
+  
+  const data = await loadBingWallpaper(c, options)
+  const location = data.data?.variants?.[options.resolution]
+  if (!location) {
+    return c.json({ ...data, data: null }, data.code === 404 ? 404 : 500)
+  }
+  
+  return c.redirect(location, 302)
+})
+
 // 获取可用的来源列表
-app.get('/getSources', async (c: Context) => {
+app.get('/getSources', async (c: Context<ConfigEnv>) => {
   try {
     const sources = await getAvailableSources()
+    const catalog = await loadWallpaperCatalog().catch(() => null)
+    if (catalog) {
+      c.header(CATALOG_VERSION_HEADER, catalog.version)
+      setCatalogHeaders(c, getWallpaperCatalogStatus())
+    }
     return c.json({
       code: 200,
       data: sources,
@@ -87,22 +350,43 @@ app.get('/getSources', async (c: Context) => {
 })
 
 // 健康检查端点
-app.get('/health', (c: Context) => {
+app.get('/health', (c: Context<ConfigEnv>) => {
+  const catalogs = {
+    wallpaper: { ...getWallpaperCatalogStatus(), providers: getWallpaperCatalogReports() },
+    bing: getBingCatalogStatus()
+  }
+  // 刷新失败、正在使用旧数据或有数据源加载失败时标记为 degraded
+  const degraded = [catalogs.wallpaper, ...Object.values(catalogs.bing)]
+    .some(status => status.freshness === 'stale' && status.lastError)
+    || catalogs.wallpaper.providers.some(report => report.error)
+  
   return c.json({
     code: 200,
     data: {
       service: 'Wallpaper API v1',
-      status: 'healthy',
-      endpoints: [
-        'GET /api/v1/getWallpaperList?page=1&source=Unsplash',
-        'GET /api/v1/getBingWallpaperList',
-        'GET /api/v1/getSources',
-        'GET /api/v1/health'
-      ],
+      status: degraded ? 'degraded' : 'healthy',
+      catalogs,
+      endpoints: getV1Routes(c.get('config')).map(route => `GET /api/v1${route.path}`),
+      docs: '/api/v1/docs',
       timestamp: new Date().toISOString()
     },
     message: 'Service is running'
   })
 })
 
+/**
+ * OpenAPI 3 文档（由各路由的参数与响应定义生成）
+ * path: /v1/openapi.json
+ */
+app.get('/openapi.json', (c: Context<ConfigEnv>) => {
+  c.header('Cache-Control', 'public, max-age=3600')
+  const config = c.get('config')
+  return c.json(buildOpenApiDocument(getPublicBaseUrl(c.req.url, config.publicBaseUrl), config))
+})
+
+// 接口文档页面
+app.get('/docs', (c: Context<ConfigEnv>) => {
+  return c.html(renderDocsPage('/api/v1/openapi.json'))
+})
+
 export default handle(app)
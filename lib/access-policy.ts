@@ -0,0 +1,78 @@
+// 访问策略：CORS 来源白名单与防盗链（Referer 校验）
+import type { ProxySourceConfig } from './proxy-utils'
+import { getConfig } from './config'
+
+/**
+ * 代理源的访问策略
+ * 规则可写为完整来源（https://example.com、chrome-extension://<id>）或仅域名（example.com）
+ * `*.example.com` 匹配所有子域名（不含 example.com 本身），单独的 `*` 匹配全部
+ */
+export interface AccessPolicy {
+  allowedOrigins?: string[]     // CORS 允许的来源，未设置时允许全部（Access-Control-Allow-Origin: *）
+  allowedReferers?: string[]    // 允许的 Referer，未设置时不校验
+  allowEmptyReferer?: boolean   // 是否允许不带 Referer 的请求（直接访问、隐私模式等），默认允许
+  placeholderUrl?: string       // 拒绝盗链时重定向到的占位图片，未设置时返回 403
+}
+
+/**
+ * 获取代理源生效的访问策略
+ * 代理源未配置时使用环境变量：PROXY_ALLOWED_ORIGINS、PROXY_ALLOWED_REFERERS、
+ * PROXY_ALLOW_EMPTY_REFERER（false 表示拒绝）、PROXY_HOTLINK_PLACEHOLDER
+ */
+export function getAccessPolicy(source: ProxySourceConfig): AccessPolicy {
+  if (source.accessPolicy) return source.accessPolicy
+
+  return getConfig().access
+}
+
+// 域名匹配，支持 *.example.com 通配子域名
+function matchesHost(host: string, pattern: string): boolean {
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1))
+  }
+  return host === pattern
+}
+
+/**
+ * 判断 URL（Origin 或 Referer）是否匹配规则
+ * 规则带协议时同时比较协议与主机（含端口），否则只比较主机名
+ */
+export function matchesOriginPattern(value: string, pattern: string): boolean {
+  if (pattern === '*') return true
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+
+  const normalized = pattern.toLowerCase().replace(/\/+$/, '')
+  const schemeIndex = normalized.indexOf('://')
+  if (schemeIndex === -1) {
+    return matchesHost(url.hostname.toLowerCase(), normalized)
+  }
+
+  const scheme = normalized.slice(0, schemeIndex + 1)
+  const host = normalized.slice(schemeIndex + 3)
+  return url.protocol === scheme && matchesHost(url.host.toLowerCase(), host)
+}
+
+/**
+ * 计算 CORS 响应的 Access-Control-Allow-Origin
+ * 返回 null 表示来源不被允许，不应返回任何 CORS 头
+ */
+export function resolveAllowedOrigin(policy: AccessPolicy, origin: string | undefined): string | null {
+  if (!policy.allowedOrigins || policy.allowedOrigins.includes('*')) return '*'
+  if (!origin) return null
+
+  return policy.allowedOrigins.some(pattern => matchesOriginPattern(origin, pattern)) ? origin : null
+}
+
+// 校验 Referer 是否允许（防盗链）
+export function isRefererAllowed(policy: AccessPolicy, referer: string | undefined): boolean {
+  if (!policy.allowedReferers) return true
+  if (!referer) return policy.allowEmptyReferer !== false
+
+  return policy.allowedReferers.some(pattern => matchesOriginPattern(referer, pattern))
+}
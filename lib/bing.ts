@@ -0,0 +1,360 @@
+// Bing 每日壁纸：市场（mkt）与分页参数解析、按市场归档的历史壁纸存储
+import type { BingWallpaperItem } from './wallpaper-utils'
+import { getProxySource, signProxyUrl } from './proxy-utils'
+import type { UrlSigningOptions } from './proxy-utils'
+import { getConfig } from './config'
+import { getUpstreamFetch } from './upstream'
+
+// HPImageArchive 接口只提供最近 8 天：idx 为起始偏移（0 为今天），n 为数量
+export const BING_MAX_IDX = 7
+export const BING_MAX_COUNT = 8
+
+// 按日期范围查询归档时的最大跨度（天）
+export const MAX_ARCHIVE_RANGE_DAYS = 366
+
+// 代理 Bing 图片服务器的代理源名称
+export const BING_ORIGIN_SOURCE = 'bing-origin'
+
+// urlbase 可拼接的分辨率：UHD 为原图（通常 3840x2160 或更高），竖屏尺寸用于移动端
+export const BING_RESOLUTIONS = [
+  'UHD',
+  '1920x1200', '1920x1080', '1366x768', '1280x768', '1024x768', '800x600', '800x480', '640x480', '400x240', '320x240',
+  '1080x1920', '768x1280', '720x1280', '480x800', '240x320'
+]
+
+// 单张壁纸接口默认返回的分辨率
+export const DEFAULT_BING_RESOLUTION = '1920x1080'
+
+// 无法确定下次更新时间或已过更新时间（数据尚未刷新）时的缓存时长（秒）
+export const BING_FALLBACK_MAX_AGE = 60
+
+// 历史壁纸不再变化，可以长时间缓存（秒）
+export const BING_ARCHIVE_MAX_AGE = 24 * 60 * 60
+
+// Bing 列表查询选项
+export interface BingListOptions {
+  market: string
+  idx: number
+  n: number
+  from?: string  // 归档查询的起始日期（yyyymmdd，含）
+  to?: string    // 归档查询的结束日期（yyyymmdd，含，默认为今天）
+}
+
+// 规范化市场代码：zh-cn → zh-CN，格式不合法时返回 null
+export function normalizeMarket(market: string): string | null {
+  const match = market.trim().match(/^([a-z]{2})-([a-z]{2})$/i)
+  return match ? `${match[1].toLowerCase()}-${match[2].toUpperCase()}` : null
+}
+
+// 解析 yyyymmdd 日期，不合法时返回 null
+export function parseBingDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})$/)
+  if (!match) return null
+
+  const date = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3]))
+  return date.getUTCFullYear() === +match[1] && date.getUTCMonth() === +match[2] - 1 && date.getUTCDate() === +match[3]
+    ? date
+    : null
+}
+
+export function formatBingDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '')
+}
+
+/**
+ * 计算壁纸的下次更新时间（毫秒时间戳）
+ * fullstartdate（yyyymmddHHMM，UTC）为该市场本地零点，下一张壁纸在 24 小时后生效
+ */
+export function getNextBingRollover(item: BingWallpaperItem): number | null {
+  const match = (item.fullstartdate || '').match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})$/)
+  if (!match) return null
+
+  const start = Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5])
+  return start + 24 * 60 * 60 * 1000
+}
+
+// 今日壁纸的缓存时长（秒）：到下次更新为止
+export function getBingTodayMaxAge(item: BingWallpaperItem, now: number = Date.now()): number {
+  const rollover = getNextBingRollover(item)
+  if (!rollover || rollover <= now) return BING_FALLBACK_MAX_AGE
+
+  return Math.max(BING_FALLBACK_MAX_AGE, Math.floor((rollover - now) / 1000))
+}
+
+// 依次列出 from 到 to（含）之间的日期
+export function listBingDates(from: string, to: string): string[] {
+  const start = parseBingDate(from)
+  const end = parseBingDate(to)
+  if (!start || !end) return []
+
+  const dates: string[] = []
+  for (let time = start.getTime(); time <= end.getTime(); time += 24 * 60 * 60 * 1000) {
+    dates.push(formatBingDate(new Date(time)))
+  }
+  return dates
+}
+
+// 解析 0 到 max 之间的整数参数
+function parseIntInRange(value: string | undefined, min: number, max: number, fallback: number): number | null {
+  if (value === undefined || value.trim() === '') return fallback
+  if (!/^\d+$/.test(value.trim())) return null
+
+  const parsed = parseInt(value, 10)
+  return parsed >= min && parsed <= max ? parsed : null
+}
+
+/**
+ * 从查询参数解析 Bing 列表选项
+ * 参数：mkt（默认为 defaultMarket）、idx（0~7）、n（1~8）、from/to（yyyymmdd，指定时查询归档）
+ * 参数不合法时返回 error 与对应的参数名 field
+ * @param defaultMarket 未指定 mkt 时的市场，默认为配置的 BING_DEFAULT_MARKET
+ */
+export function parseBingListOptions(
+  query: Record<string, string | undefined>,
+  defaultMarket: string = getConfig().bing.defaultMarket
+): { options: BingListOptions; error?: undefined; field?: undefined } | { options?: undefined; error: string; field: string } {
+  const market = query.mkt ? normalizeMarket(query.mkt) : defaultMarket
+  if (!market) {
+    return { field: 'mkt', error: 'Invalid mkt, expected a market code such as en-US or zh-CN' }
+  }
+
+  const idx = parseIntInRange(query.idx, 0, BING_MAX_IDX, 0)
+  if (idx === null) {
+    return { field: 'idx', error: `Invalid idx, expected an integer between 0 and ${BING_MAX_IDX}` }
+  }
+
+  const n = parseIntInRange(query.n, 1, BING_MAX_COUNT, BING_MAX_COUNT)
+  if (n === null) {
+    return { field: 'n', error: `Invalid n, expected an integer between 1 and ${BING_MAX_COUNT}` }
+  }
+
+  const options: BingListOptions = { market, idx, n }
+  if (!query.from && !query.to) {
+    return { options }
+  }
+
+  // 未指定 to 时查询到今天
+  const from = query.from
+  const to = query.to || formatBingDate(new Date())
+  if (!from) {
+    return { field: 'from', error: 'Invalid date range, from is required' }
+  }
+  if (!parseBingDate(from) || !parseBingDate(to)) {
+    return { field: parseBingDate(from) ? 'to' : 'from', error: 'Invalid date, expected yyyymmdd' }
+  }
+  if (from > to) {
+    return { field: 'from', error: 'Invalid date range, from must not be after to' }
+  }
+  if (listBingDates(from, to).length > MAX_ARCHIVE_RANGE_DAYS) {
+    return { field: 'to', error: `Invalid date range, expected at most ${MAX_ARCHIVE_RANGE_DAYS} days` }
+  }
+
+  return { options: { ...options, from, to } }
+}
+
+// 单张壁纸查询选项
+export interface BingImageOptions {
+  market: string
+  date?: string       // yyyymmdd，未指定时为当天
+  resolution: string
+}
+
+/**
+ * 解析单张壁纸接口的参数
+ * @param date 路径中的日期：today 或 yyyymmdd
+ * @param query 查询参数：mkt（默认为 defaultMarket）、res（默认 1920x1080，取值见 BING_RESOLUTIONS）
+ * @param defaultMarket 未指定 mkt 时的市场，默认为配置的 BING_DEFAULT_MARKET
+ */
+export function parseBingImageOptions(
+  date: string,
+  query: Record<string, string | undefined>,
+  defaultMarket: string = getConfig().bing.defaultMarket
+): { options: BingImageOptions; error?: undefined; field?: undefined } | { options?: undefined; error: string; field: string } {
+  const market = query.mkt ? normalizeMarket(query.mkt) : defaultMarket
+  if (!market) {
+    return { field: 'mkt', error: 'Invalid mkt, expected a market code such as en-US or zh-CN' }
+  }
+
+  const resolution = query.res || DEFAULT_BING_RESOLUTION
+  if (!BING_RESOLUTIONS.includes(resolution)) {
+    return { field: 'res', error: `Invalid res, expected one of ${BING_RESOLUTIONS.join(', ')}` }
+  }
+
+  if (date === 'today') {
+    return { options: { market, resolution } }
+  }
+  if (!parseBingDate(date)) {
+    return { field: 'date', error: 'Invalid date, expected today or yyyymmdd' }
+  }
+  return { options: { market, date, resolution } }
+}
+
+/**
+ * 由 urlbase（如 /th?id=OHR.Name_EN-US123）生成各分辨率经代理的图片地址
+ * 返回分辨率到地址的映射，urlbase 不合法时返回空对象
+ * @param baseUrl 代理服务的根地址（如 https://example.com）
+ * @param signing 传入时为地址追加签名
+ */
+export async function buildBingVariants(
+  urlbase: string,
+  baseUrl: string,
+  signing?: UrlSigningOptions
+): Promise<Record<string, string>> {
+  const source = getProxySource(BING_ORIGIN_SOURCE)
+  const match = (urlbase || '').match(/[?&]id=([\w.-]+)/)
+  if (!source || !match) return {}
+
+  const variants: Record<string, string> = {}
+  for (const resolution of BING_RESOLUTIONS) {
+    const url = `${baseUrl}${source.proxyPath}/${match[1]}_${resolution}.jpg`
+    variants[resolution] = signing ? await signProxyUrl(url, signing) : url
+  }
+  return variants
+}
+
+/**
+ * Bing 壁纸归档存储接口
+ * 以市场 + startdate 为键，重复保存同一天时覆盖
+ */
+export interface BingArchiveStore {
+  save(market: string, items: BingWallpaperItem[]): Promise<void>
+  // 查询 from 到 to（含）之间的壁纸，按日期从新到旧排列
+  query(market: string, from: string, to: string): Promise<BingWallpaperItem[]>
+}
+
+// 内存归档（边缘函数实例内有效，用于开发或未配置持久存储时）
+export class MemoryBingArchiveStore implements BingArchiveStore {
+  private markets = new Map<string, Map<string, BingWallpaperItem>>()
+
+  async save(market: string, items: BingWallpaperItem[]): Promise<void> {
+    let days = this.markets.get(market)
+    if (!days) {
+      days = new Map()
+      this.markets.set(market, days)
+    }
+    for (const item of items) {
+      days.set(item.startdate, item)
+    }
+  }
+
+  async query(market: string, from: string, to: string): Promise<BingWallpaperItem[]> {
+    const days = this.markets.get(market)
+    if (!days) return []
+
+    return [...days.values()]
+      .filter(item => item.startdate >= from && item.startdate <= to)
+      .sort((a, b) => (a.startdate < b.startdate ? 1 : a.startdate > b.startdate ? -1 : 0))
+  }
+}
+
+// 文本键值存储（Cloudflare KV、Vercel KV、Redis 等按此接口适配）
+export interface TextKVStore {
+  get(key: string): Promise<string | null>
+  put(key: string, value: string): Promise<void>
+  getMany?(keys: string[]): Promise<Array<string | null>>  // 批量读取（一次请求），未实现时逐个读取
+}
+
+// 归档查询每批读取的键数；不支持批量读取时同时进行的读取数
+const KV_BATCH_SIZE = 100
+const KV_READ_CONCURRENCY = 8
+
+/**
+ * 基于键值存储的持久归档
+ * 每个市场每天一个键（prefix + market + ':' + yyyymmdd），查询时按批读取，避免一次查询产生数百个请求
+ */
+export class KVBingArchiveStore implements BingArchiveStore {
+  constructor(private store: TextKVStore, private prefix: string = 'bing-archive:') {}
+
+  async save(market: string, items: BingWallpaperItem[]): Promise<void> {
+    await Promise.all(items.map(item =>
+      this.store.put(`${this.prefix}${market}:${item.startdate}`, JSON.stringify(item))
+    ))
+  }
+
+  async query(market: string, from: string, to: string): Promise<BingWallpaperItem[]> {
+    const keys = listBingDates(from, to).reverse().map(date => `${this.prefix}${market}:${date}`)
+    const values: Array<string | null> = []
+    for (let i = 0; i < keys.length; i += KV_BATCH_SIZE) {
+      values.push(...await this.readBatch(keys.slice(i, i + KV_BATCH_SIZE)))
+    }
+
+    const items: BingWallpaperItem[] = []
+    for (const value of values) {
+      if (!value) continue
+      try {
+        items.push(JSON.parse(value))
+      } catch {
+        // 忽略损坏的条目
+      }
+    }
+    return items
+  }
+
+  private async readBatch(keys: string[]): Promise<Array<string | null>> {
+    if (this.store.getMany) {
+      return this.store.getMany(keys)
+    }
+
+    const values: Array<string | null> = []
+    for (let i = 0; i < keys.length; i += KV_READ_CONCURRENCY) {
+      values.push(...await Promise.all(keys.slice(i, i + KV_READ_CONCURRENCY).map(key => this.store.get(key))))
+    }
+    return values
+  }
+}
+
+/**
+ * 基于 REST 接口的文本键值存储（Vercel KV / Upstash Redis 协议）
+ * GET {url}/get/{key} 读取，POST {url}/set/{key} 写入，POST {url} 发送 ["MGET", ...keys] 批量读取，响应为 { result }
+ */
+export class RestKVStore implements TextKVStore {
+  constructor(private url: string, private token: string) {}
+
+  private async request(path: string, init: RequestInit = {}): Promise<unknown> {
+    const response = await getUpstreamFetch()(`${this.url}/${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${this.token}` }
+    })
+    if (!response.ok) {
+      throw new Error(`KV request failed: ${response.status}`)
+    }
+    const data: { result?: unknown } = await response.json()
+    return data.result
+  }
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.request(`get/${encodeURIComponent(key)}`)
+    return typeof result === 'string' ? result : null
+  }
+
+  async put(key: string, value: string): Promise<void> {
+    await this.request(`set/${encodeURIComponent(key)}`, { method: 'POST', body: value })
+  }
+
+  async getMany(keys: string[]): Promise<Array<string | null>> {
+    const result = await this.request('', { method: 'POST', body: JSON.stringify(['MGET', ...keys]) })
+    if (!Array.isArray(result)) return keys.map(() => null)
+    return keys.map((_, index) => (typeof result[index] === 'string' ? result[index] : null))
+  }
+}
+
+let bingArchiveStore: BingArchiveStore | null = null
+
+/**
+ * 获取归档存储，首次使用时按配置创建
+ * 配置了 BING_ARCHIVE_KV_URL 时持久保存（跨实例与冷启动保留，可查询超出 Bing 接口 8 天范围的历史壁纸），否则保存在内存中
+ */
+export function getBingArchiveStore(): BingArchiveStore {
+  if (!bingArchiveStore) {
+    const { archiveKvUrl, archiveKvToken } = getConfig().bing
+    bingArchiveStore = archiveKvUrl && archiveKvToken
+      ? new KVBingArchiveStore(new RestKVStore(archiveKvUrl, archiveKvToken))
+      : new MemoryBingArchiveStore()
+  }
+  return bingArchiveStore
+}
+
+// 替换归档存储（传入 null 时恢复为按配置创建）
+export function setBingArchiveStore(store: BingArchiveStore | null) {
+  bingArchiveStore = store
+}
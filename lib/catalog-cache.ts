@@ -0,0 +1,150 @@
+// 数据目录缓存：并发加载合并为一次（single-flight）、过期后先返回旧数据并在后台刷新、刷新失败时在限定时长内继续使用旧数据
+import type { Context, MiddlewareHandler } from 'hono'
+import { getConfig } from './config'
+
+// 响应头：响应所基于数据的新鲜度与年龄（秒）
+export const CATALOG_FRESHNESS_HEADER = 'X-Catalog-Freshness'
+export const CATALOG_AGE_HEADER = 'X-Catalog-Age'
+export type CatalogFreshness = 'fresh' | 'stale' | 'empty'
+
+export interface CatalogCacheOptions {
+  ttl: number            // 数据新鲜的时长（毫秒）
+  maxStale: number       // 过期后仍可返回旧数据的时长（毫秒），超出后必须等待重新加载
+  refreshBackoff?: number  // 加载失败后暂停后台刷新的时长（毫秒），默认 DEFAULT_REFRESH_BACKOFF
+}
+
+// 加载失败后暂停后台刷新的默认时长（毫秒），避免上游故障期间每个请求都触发一次刷新
+export const DEFAULT_REFRESH_BACKOFF = 30 * 1000
+
+// 过期数据的默认最长使用时长（毫秒）：CATALOG_MAX_STALE，默认1天
+export function getCatalogMaxStale(): number {
+  return getConfig().catalog.maxStale * 1000
+}
+
+// 缓存状态（用于 health 与响应头）
+export interface CatalogStatus {
+  freshness: CatalogFreshness
+  age: number                  // 数据的年龄（秒），无数据时为 0
+  fetchedAt: string | null
+  refreshing: boolean
+  lastError: string | null
+  lastErrorAt: string | null
+}
+
+// 正在进行的后台刷新，请求结束前交给运行时的 waitUntil
+const pendingRefreshes = new Set<Promise<unknown>>()
+
+export function getPendingCatalogRefreshes(): Promise<unknown>[] {
+  return [...pendingRefreshes]
+}
+
+// 设置数据新鲜度响应头
+export function setCatalogHeaders(c: Context, status: Pick<CatalogStatus, 'freshness' | 'age'>) {
+  c.header(CATALOG_FRESHNESS_HEADER, status.freshness)
+  c.header(CATALOG_AGE_HEADER, String(status.age))
+}
+
+/**
+ * 后台刷新中间件
+ * 响应返回后边缘函数可能被挂起，将本次请求触发的后台刷新交给 waitUntil 执行完
+ */
+export function catalogRefresh(): MiddlewareHandler {
+  return async (c, next) => {
+    await next()
+
+    const pending = getPendingCatalogRefreshes()
+    if (pending.length === 0) return
+
+    try {
+      c.executionCtx.waitUntil(Promise.allSettled(pending))
+    } catch {
+      // 运行时不提供 executionCtx 时刷新照常在后台进行
+    }
+  }
+}
+
+/**
+ * 单个数据目录的缓存
+ * - 新鲜（age < ttl）：直接返回
+ * - 过期但未超过 maxStale：返回旧数据，同时在后台刷新
+ * - 无数据或超过 maxStale：等待加载；加载失败时抛出错误
+ * 同一时刻最多只有一个加载请求，并发调用共享同一个结果
+ */
+export class CatalogCache<T> {
+  private value: T | null = null
+  private fetchedAt = 0
+  private inflight: Promise<T> | null = null
+  private lastError: string | null = null
+  private lastErrorAt = 0
+
+  constructor(private load: () => Promise<T>, private options: CatalogCacheOptions) {}
+
+  async get(now: number = Date.now()): Promise<T> {
+    if (this.value !== null) {
+      const age = now - this.fetchedAt
+      if (age < this.options.ttl) {
+        return this.value
+      }
+      if (age < this.options.ttl + this.options.maxStale) {
+        this.refreshInBackground(now)
+        return this.value
+      }
+    }
+
+    return this.refresh()
+  }
+
+  // 重新加载（合并并发调用）
+  refresh(): Promise<T> {
+    if (this.inflight) return this.inflight
+
+    const task = this.load()
+      .then(value => {
+        this.value = value
+        this.fetchedAt = Date.now()
+        this.lastError = null
+        return value
+      })
+      .catch(error => {
+        this.lastError = error instanceof Error ? error.message : String(error)
+        this.lastErrorAt = Date.now()
+        throw error
+      })
+      .finally(() => {
+        this.inflight = null
+      })
+
+    this.inflight = task
+    return task
+  }
+
+  // 上次加载失败后的退避期内不再发起后台刷新，继续返回旧数据
+  private refreshInBackground(now: number) {
+    if (this.inflight) return
+    if (this.lastError !== null && now - this.lastErrorAt < (this.options.refreshBackoff ?? DEFAULT_REFRESH_BACKOFF)) return
+
+    const task = this.refresh()
+      .catch(error => console.error('Catalog refresh failed, serving stale data:', error))
+      .finally(() => pendingRefreshes.delete(task))
+    pendingRefreshes.add(task)
+  }
+
+  // 当前缓存的数据（不触发加载）
+  peek(): T | null {
+    return this.value
+  }
+
+  getStatus(now: number = Date.now()): CatalogStatus {
+    const hasValue = this.value !== null
+    const age = hasValue ? now - this.fetchedAt : 0
+
+    return {
+      freshness: !hasValue ? 'empty' : age < this.options.ttl ? 'fresh' : 'stale',
+      age: Math.floor(age / 1000),
+      fetchedAt: hasValue ? new Date(this.fetchedAt).toISOString() : null,
+      refreshing: this.inflight !== null,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt ? new Date(this.lastErrorAt).toISOString() : null
+    }
+  }
+}
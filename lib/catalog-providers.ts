@@ -0,0 +1,252 @@
+// 壁纸数据源：远程地址、本地文件、内联数据，多个数据源合并为一个目录（按 _id/imgId 去重）
+import type { WallpaperItem } from './wallpaper-utils'
+import { getConfig, PLACEHOLDER_BASE_URL } from './config'
+import { getUpstreamFetch } from './upstream'
+
+// 未配置 CATALOG_SOURCES 时使用的数据地址
+export const DEFAULT_CATALOG_URL = 'https://wallpaper.xyu.fan/all.json'
+
+// 每个数据源最多记录的跳过原因条数
+const MAX_REPORTED_ERRORS = 20
+
+/**
+ * 数据源接口
+ * load 返回未经校验的原始数据（应为数组），合并时逐条校验
+ */
+export interface CatalogProvider {
+  name: string
+  source?: string  // 指定时覆盖条目的 source 字段（如自建精选集统一标记为 Curated）
+  load(): Promise<unknown>
+}
+
+// 远程 JSON 地址
+export class RemoteCatalogProvider implements CatalogProvider {
+  constructor(private url: string, public name: string = url, public source?: string) {}
+
+  async load(): Promise<unknown> {
+    const response = await getUpstreamFetch()(this.url)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${this.url}: ${response.status}`)
+    }
+    return response.json()
+  }
+}
+
+/**
+ * 本地 JSON 文件：public/ 下的静态文件，随部署发布，vercel dev 在本地离线提供
+ * 边缘运行时没有文件系统，因此按 baseUrl 以静态资源的方式读取（注意文件可被公开下载）
+ */
+export class FileCatalogProvider extends RemoteCatalogProvider {
+  constructor(path: string, baseUrl: string, name: string = path, source?: string) {
+    super(resolveStaticFileUrl(path, baseUrl), name, source)
+  }
+}
+
+// 本地文件路径对应的静态资源地址，路径相对于 public/（可带 ./、/ 或 public/ 前缀）
+export function resolveStaticFileUrl(path: string, baseUrl: string): string {
+  const relative = path.replace(/^(\.?\/)+/, '').replace(/^public\//, '')
+  return new URL(relative, `${baseUrl.replace(/\/+$/, '')}/`).toString()
+}
+
+// 内联数据（测试数据或少量固定条目）
+export class InlineCatalogProvider implements CatalogProvider {
+  constructor(private items: unknown[], public name: string = 'inline', public source?: string) {}
+
+  async load(): Promise<unknown> {
+    return this.items
+  }
+}
+
+// 单个数据源的加载结果
+export interface CatalogProviderReport {
+  provider: string
+  loaded: number        // 合并进目录的条目数
+  duplicates: number    // 与已有条目重复而忽略的条目数
+  skipped: number       // 格式不合法而跳过的条目数
+  errors: string[]      // 跳过原因（最多 MAX_REPORTED_ERRORS 条）
+  error: string | null  // 数据源整体加载失败的原因
+}
+
+export interface MergedCatalog {
+  items: WallpaperItem[]
+  reports: CatalogProviderReport[]
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value)
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+
+/**
+ * 按 WallpaperItem 结构校验一条数据
+ * _id、src.rawSrc（http/https 地址）、source 为必填；imgId、colors、rate、like、dimensions 缺失时使用默认值
+ * @param source 指定时覆盖条目的 source 字段
+ */
+export function validateWallpaperItem(
+  value: unknown,
+  source?: string
+): { item: WallpaperItem; error?: undefined } | { item?: undefined; error: string } {
+  if (!isRecord(value)) {
+    return { error: 'expected an object' }
+  }
+
+  const raw = value
+  if (!isString(raw._id) || !raw._id) {
+    return { error: 'missing _id' }
+  }
+
+  const rawSrc = isRecord(raw.src) ? raw.src.rawSrc : undefined
+  if (!isString(rawSrc) || !/^https?:\/\/[^/]/i.test(rawSrc)) {
+    return { error: `${raw._id}: src.rawSrc must be an http(s) URL` }
+  }
+
+  const itemSource = source || raw.source
+  if (!isString(itemSource) || !itemSource) {
+    return { error: `${raw._id}: missing source` }
+  }
+
+  const { imgId = '', colors = [], rate = 0, like = 0, dimensions = '' } = raw
+  if (!isString(imgId)) {
+    return { error: `${raw._id}: imgId must be a string` }
+  }
+  if (!(Array.isArray(colors) && colors.every(isString))) {
+    return { error: `${raw._id}: colors must be an array of strings` }
+  }
+  if (!isNumber(rate)) {
+    return { error: `${raw._id}: rate must be a number` }
+  }
+  if (!isNumber(like)) {
+    return { error: `${raw._id}: like must be a number` }
+  }
+  if (!isString(dimensions)) {
+    return { error: `${raw._id}: dimensions must be a string` }
+  }
+
+  return {
+    item: {
+      src: { rawSrc },
+      colors,
+      rate,
+      like,
+      _id: raw._id,
+      imgId,
+      dimensions,
+      source: itemSource
+    }
+  }
+}
+
+/**
+ * 加载并合并多个数据源
+ * - 按数据源顺序合并，_id 或 imgId 重复时保留先出现的条目
+ * - 每个条目的 provider 字段记录其来自的数据源
+ * - 不合法的条目跳过并记入报告；单个数据源失败时继续使用其余数据源，全部失败时抛出错误
+ */
+export async function loadCatalogProviders(providers: CatalogProvider[]): Promise<MergedCatalog> {
+  const results = await Promise.allSettled(providers.map(provider => provider.load()))
+
+  const items: WallpaperItem[] = []
+  const reports: CatalogProviderReport[] = []
+  const seenIds = new Set<string>()
+  const seenImgIds = new Set<string>()
+
+  providers.forEach((provider, index) => {
+    const report: CatalogProviderReport = {
+      provider: provider.name,
+      loaded: 0,
+      duplicates: 0,
+      skipped: 0,
+      errors: [],
+      error: null
+    }
+    reports.push(report)
+
+    const result = results[index]
+    if (result.status === 'rejected') {
+      report.error = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      console.error(`Catalog provider ${provider.name} failed:`, result.reason)
+      return
+    }
+    if (!Array.isArray(result.value)) {
+      report.error = 'Expected a JSON array'
+      console.error(`Catalog provider ${provider.name} returned invalid data`)
+      return
+    }
+
+    result.value.forEach((value, position) => {
+      const { item, error } = validateWallpaperItem(value, provider.source)
+      if (!item) {
+        report.skipped++
+        if (report.errors.length < MAX_REPORTED_ERRORS) {
+          report.errors.push(`[${position}] ${error}`)
+        }
+        return
+      }
+
+      if (seenIds.has(item._id) || (item.imgId && seenImgIds.has(item.imgId))) {
+        report.duplicates++
+        return
+      }
+
+      seenIds.add(item._id)
+      if (item.imgId) seenImgIds.add(item.imgId)
+      items.push({ ...item, provider: provider.name })
+      report.loaded++
+    })
+
+    if (report.skipped > 0) {
+      console.warn(`Catalog provider ${provider.name} skipped ${report.skipped} malformed entries`)
+    }
+  })
+
+  if (reports.every(report => report.error)) {
+    throw new Error('All catalog providers failed')
+  }
+
+  return { items, reports }
+}
+
+/**
+ * 解析数据源配置 CATALOG_SOURCES（逗号分隔）
+ * - https://... 为远程地址，其余为 public/ 下的本地文件路径（可加 file: 前缀），通过 baseUrl 读取
+ * - 可用 名称=地址 为数据源内的条目统一指定 source，如 Curated=file:catalog/curated.json
+ * 未配置时使用 DEFAULT_CATALOG_URL
+ * @param baseUrl 服务的根地址（PROXY_PUBLIC_BASE_URL），本地开发时为 vercel dev 的地址
+ */
+export function parseCatalogSources(value: string | undefined, baseUrl: string = PLACEHOLDER_BASE_URL): CatalogProvider[] {
+  const entries = (value || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+
+  if (entries.length === 0) {
+    return [new RemoteCatalogProvider(DEFAULT_CATALOG_URL)]
+  }
+
+  return entries.map(entry => {
+    const match = entry.match(/^([\w-]+)=(.+)$/)
+    const source = match ? match[1] : undefined
+    const location = match ? match[2] : entry
+
+    if (/^https?:\/\//i.test(location)) {
+      return new RemoteCatalogProvider(location, location, source)
+    }
+    const path = location.replace(/^file:(\/\/)?/, '')
+    return new FileCatalogProvider(path, baseUrl, location, source)
+  })
+}
+
+let catalogProviders: CatalogProvider[] | null = null
+
+export function getCatalogProviders(): CatalogProvider[] {
+  if (!catalogProviders) {
+    const { catalog, publicBaseUrl } = getConfig()
+    catalogProviders = parseCatalogSources(catalog.sources, publicBaseUrl || undefined)
+  }
+  return catalogProviders
+}
+
+// 替换数据源（传入 null 时恢复为 CATALOG_SOURCES 配置）
+export function setCatalogProviders(providers: CatalogProvider[] | null) {
+  catalogProviders = providers
+}
@@ -0,0 +1,106 @@
+// 熔断器：上游源连续失败后暂停请求，冷却后放行一次探测请求
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number  // 连续失败多少次后熔断
+  resetTimeout: number      // 熔断后多久允许探测（毫秒）
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeout: 30 * 1000
+}
+
+// 熔断器状态快照（用于 health/stats）
+export interface CircuitSnapshot {
+  state: CircuitState
+  failures: number
+  openedAt: string | null
+  lastError: string | null
+}
+
+/**
+ * 单个上游源的熔断器
+ * - closed：正常请求，连续失败达到阈值后进入 open
+ * - open：拒绝请求，超过 resetTimeout 后进入 half-open
+ * - half-open：只放行一个探测请求，成功则恢复 closed，失败则重新 open
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private probing = false
+  private lastError: string | null = null
+
+  constructor(private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {}
+
+  // 是否允许发出请求（half-open 时占用唯一的探测名额）
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.options.resetTimeout) {
+      this.state = 'half-open'
+      this.probing = false
+    }
+
+    if (this.state === 'closed') return true
+    if (this.state === 'half-open' && !this.probing) {
+      this.probing = true
+      return true
+    }
+    return false
+  }
+
+  recordSuccess() {
+    this.state = 'closed'
+    this.failures = 0
+    this.probing = false
+    this.lastError = null
+  }
+
+  recordFailure(reason: string, now: number = Date.now()) {
+    this.failures++
+    this.probing = false
+    this.lastError = reason
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open'
+      this.openedAt = now
+    }
+  }
+
+  getSnapshot(now: number = Date.now()): CircuitSnapshot {
+    // 冷却期已过但尚未收到请求时按 half-open 报告
+    const state = this.state === 'open' && now - this.openedAt >= this.options.resetTimeout
+      ? 'half-open'
+      : this.state
+
+    return {
+      state,
+      failures: this.failures,
+      openedAt: this.state === 'closed' ? null : new Date(this.openedAt).toISOString(),
+      lastError: this.lastError
+    }
+  }
+}
+
+// 按上游源（域名）共享的熔断器
+const circuitBreakers = new Map<string, CircuitBreaker>()
+
+export function getCircuitBreaker(origin: string): CircuitBreaker {
+  let breaker = circuitBreakers.get(origin)
+  if (!breaker) {
+    breaker = new CircuitBreaker()
+    circuitBreakers.set(origin, breaker)
+  }
+  return breaker
+}
+
+// 获取指定上游源的熔断器状态
+export function getCircuitStates(origins: string[]): Array<{ origin: string } & CircuitSnapshot> {
+  return origins.map(origin => ({ origin, ...getCircuitBreaker(origin).getSnapshot() }))
+}
+
+// 重置全部熔断器
+export function resetCircuitBreakers() {
+  circuitBreakers.clear()
+}
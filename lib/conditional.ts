@@ -0,0 +1,69 @@
+// 条件请求：按数据版本与查询生成 ETag，If-None-Match 命中时返回 304
+import type { MiddlewareHandler } from 'hono'
+import { shortHash } from './cursor'
+import { getConfig } from './config'
+
+// 路由通过该响应头声明响应所基于的数据版本，中间件据此生成 ETag
+export const CATALOG_VERSION_HEADER = 'X-Catalog-Version'
+
+// If-None-Match 是否命中（弱比较）
+export function matchesIfNoneMatch(ifNoneMatch: string | undefined, etag: string | undefined): boolean {
+  if (!ifNoneMatch || !etag) return false
+  if (ifNoneMatch.trim() === '*') return true
+
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, '')
+  return ifNoneMatch.split(',').some(tag => normalize(tag) === normalize(etag))
+}
+
+/**
+ * 由数据版本与请求地址生成弱 ETag
+ * 查询参数按名称排序后参与计算；域名也参与计算，因为响应中的代理地址随域名变化
+ * 响应含签名地址时传入签名窗口，窗口切换后 ETag 随之变化，客户端不会一直沿用已过期的签名
+ */
+export function buildVersionEtag(version: string, requestUrl: string, signingWindow?: number): string {
+  const url = new URL(requestUrl)
+  const params = [...url.searchParams.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  const tag = `${version}-${shortHash(`${url.host}${url.pathname}?${new URLSearchParams(params).toString()}`)}`
+  return `W/"${signingWindow === undefined ? tag : `${tag}-${signingWindow}`}"`
+}
+
+/**
+ * 当前的签名窗口（按签名有效期划分），未启用签名时返回 undefined
+ * 窗口内生成的签名至少在窗口结束前有效，因此同一窗口内返回 304 是安全的
+ */
+export function getSigningWindow(now: number = Date.now()): number | undefined {
+  const { secret, ttl } = getConfig().signing
+  return secret ? Math.floor(now / (ttl * 1000)) : undefined
+}
+
+/**
+ * ETag 中间件（仅 GET/HEAD）
+ * 只处理声明了 X-Catalog-Version 的 200 响应，Cache-Control 为 no-store 的响应不处理
+ */
+export function versionEtag(): MiddlewareHandler {
+  return async (c, next) => {
+    if (c.req.method !== 'GET' && c.req.method !== 'HEAD') {
+      return next()
+    }
+
+    await next()
+
+    const version = c.res.headers.get(CATALOG_VERSION_HEADER)
+    if (!version || c.res.status !== 200 || (c.res.headers.get('cache-control') || '').includes('no-store')) {
+      return
+    }
+
+    const etag = buildVersionEtag(version, c.req.url, getSigningWindow())
+    if (matchesIfNoneMatch(c.req.header('if-none-match'), etag)) {
+      const headers = new Headers(c.res.headers)
+      headers.delete('Content-Type')
+      headers.delete('Content-Length')
+      headers.set('ETag', etag)
+      c.res = new Response(null, { status: 304, headers })
+      return
+    }
+
+    c.res.headers.set('ETag', etag)
+  }
+}
@@ -0,0 +1,308 @@
+// 应用配置：从环境变量读取、设置默认值并校验，配置不合法时在启动阶段报错
+import type { Env, MiddlewareHandler } from 'hono'
+import type { RateLimitRule } from './rate-limit'
+
+// 未配置 PROXY_PUBLIC_BASE_URL 且无法从请求得出域名时使用的占位地址
+export const PLACEHOLDER_BASE_URL = 'https://your-domain.vercel.app'
+
+export interface AppConfig {
+  publicBaseUrl: string | null      // PROXY_PUBLIC_BASE_URL：对外提供服务的根地址，未设置时使用请求的域名
+  upstream: {
+    infinityDomain: string          // PROXY_UPSTREAM_DOMAIN：wallpaper/bing/findaphoto 图床域名
+    bingImageDomain: string         // BING_IMAGE_DOMAIN：Bing 图片服务器域名
+    bingImageMirrors: string[]      // BING_IMAGE_MIRRORS：Bing 图片镜像域名（逗号分隔）
+    bingApiOrigin: string           // BING_API_ORIGIN：HPImageArchive 接口的根地址
+    timeout: number                 // PROXY_UPSTREAM_TIMEOUT：上游超时（秒）
+    maxBodySize: number             // PROXY_MAX_BODY_SIZE：上游响应体上限（字节）
+  }
+  proxyCache: {
+    ttl: number                     // PROXY_CACHE_TTL：代理缓存有效期（秒）
+    staleTtl: number                // PROXY_CACHE_STALE_TTL：过期后仍可返回的时长（秒）
+  }
+  signing: {
+    secret: string | null           // PROXY_SIGNING_SECRET：URL 签名密钥，未设置时不签名
+    ttl: number                     // PROXY_SIGNING_TTL：签名有效期（秒）
+    sources: string[]               // PROXY_SIGNED_SOURCES：强制校验签名的代理源，* 表示全部
+  }
+  allowedHosts: string[]            // PROXY_ALLOWED_HOSTS：通用代理额外允许的域名
+  access: {
+    allowedOrigins?: string[]       // PROXY_ALLOWED_ORIGINS
+    allowedReferers?: string[]      // PROXY_ALLOWED_REFERERS
+    allowEmptyReferer: boolean      // PROXY_ALLOW_EMPTY_REFERER
+    placeholderUrl?: string         // PROXY_HOTLINK_PLACEHOLDER
+  }
+  catalog: {
+    sources?: string                // CATALOG_SOURCES：壁纸数据源（格式见 parseCatalogSources）
+    ttl: number                     // CATALOG_CACHE_TTL：壁纸数据缓存时长（秒）
+    bingTtl: number                 // BING_CACHE_TTL：Bing 数据缓存时长（秒）
+    maxStale: number                // CATALOG_MAX_STALE：过期数据的最长使用时长（秒）
+  }
+  bing: {
+    defaultMarket: string           // BING_DEFAULT_MARKET：未指定 mkt 时的市场
+    archiveKvUrl?: string           // BING_ARCHIVE_KV_URL：持久归档使用的 KV REST 接口（Vercel KV / Upstash），未设置时归档仅保存在内存
+    archiveKvToken?: string         // BING_ARCHIVE_KV_TOKEN：KV REST 接口的访问令牌
+  }
+  pagination: {
+    defaultPageSize: number         // DEFAULT_PAGE_SIZE
+    maxPageSize: number             // MAX_PAGE_SIZE
+  }
+  rateLimit: {
+    api: RateLimitRule              // RATE_LIMIT_API / RATE_LIMIT_API_WINDOW：JSON 接口每个窗口（秒）内的请求数
+    image: RateLimitRule            // RATE_LIMIT_IMAGE_BYTES / RATE_LIMIT_IMAGE_WINDOW：图片路由每个窗口内的字节数
+    apiKeys: string[]               // RATE_LIMIT_API_KEYS：按 Key 单独限流的 API Key
+  }
+}
+
+// 配置校验失败，errors 中每条对应一个环境变量
+export class ConfigError extends Error {
+  errors: string[]
+
+  constructor(errors: string[]) {
+    super(`Invalid configuration:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+    this.name = 'ConfigError'
+    this.errors = errors
+  }
+}
+
+type EnvSource = Record<string, string | undefined>
+
+// 域名（可带端口），不含协议与路径
+function isHostName(value: string): boolean {
+  return /^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*(:\d+)?$/i.test(value)
+}
+
+// 读取环境变量并记录校验错误，全部读取完后统一报告
+function createReader(env: EnvSource) {
+  const errors: string[] = []
+
+  const raw = (name: string): string | undefined => {
+    const value = env[name]?.trim()
+    return value ? value : undefined
+  }
+
+  return {
+    errors,
+
+    string(name: string): string | undefined {
+      return raw(name)
+    },
+
+    integer(name: string, fallback: number, min: number, max: number = Number.MAX_SAFE_INTEGER): number {
+      const value = raw(name)
+      if (value === undefined) return fallback
+
+      const parsed = Number(value)
+      if (!Number.isInteger(parsed) || parsed < min || parsed > max) {
+        errors.push(`${name} must be an integer between ${min} and ${max}, got "${value}"`)
+        return fallback
+      }
+      return parsed
+    },
+
+    boolean(name: string, fallback: boolean): boolean {
+      const value = raw(name)?.toLowerCase()
+      if (value === undefined) return fallback
+      if (value === 'true' || value === '1') return true
+      if (value === 'false' || value === '0') return false
+
+      errors.push(`${name} must be true or false, got "${value}"`)
+      return fallback
+    },
+
+    list(name: string): string[] {
+      return (raw(name) || '').split(',').map(item => item.trim()).filter(Boolean)
+    },
+
+    // http(s) 地址，去掉末尾的斜杠
+    url(name: string, fallback?: string): string | undefined {
+      const value = raw(name)
+      if (value === undefined) return fallback
+
+      try {
+        const url = new URL(value)
+        if (url.protocol === 'http:' || url.protocol === 'https:') {
+          return value.replace(/\/+$/, '')
+        }
+      } catch {
+        // 在下方统一记录错误
+      }
+      errors.push(`${name} must be an http(s) URL, got "${value}"`)
+      return fallback
+    },
+
+    // 不带协议与路径的域名
+    domain(name: string, fallback: string): string {
+      const value = raw(name)
+      if (value === undefined) return fallback
+
+      if (!isHostName(value)) {
+        errors.push(`${name} must be a host name such as example.com, got "${value}"`)
+        return fallback
+      }
+      return value.toLowerCase()
+    },
+
+    domains(name: string, fallback: string[]): string[] {
+      if (raw(name) === undefined) return fallback
+
+      const hosts = (raw(name) || '').split(',').map(item => item.trim()).filter(Boolean)
+      const invalid = hosts.filter(host => !isHostName(host))
+      if (invalid.length > 0) {
+        errors.push(`${name} must be a comma-separated list of host names, got "${invalid.join(', ')}"`)
+        return fallback
+      }
+      return hosts.map(host => host.toLowerCase())
+    },
+
+    // 市场代码，规范化为 zh-CN 形式
+    market(name: string, fallback: string): string {
+      const value = raw(name)
+      if (value === undefined) return fallback
+
+      const match = value.match(/^([a-z]{2})-([a-z]{2})$/i)
+      if (!match) {
+        errors.push(`${name} must be a market code such as en-US, got "${value}"`)
+        return fallback
+      }
+      return `${match[1].toLowerCase()}-${match[2].toUpperCase()}`
+    }
+  }
+}
+
+/**
+ * 从环境变量加载配置
+ * 全部变量校验完后一次性抛出 ConfigError，列出所有不合法的变量
+ */
+export function loadConfig(env: EnvSource = process.env): AppConfig {
+  const read = createReader(env)
+  const optionalList = (name: string) => {
+    const items = read.list(name)
+    return items.length > 0 ? items : undefined
+  }
+
+  const config: AppConfig = {
+    publicBaseUrl: read.url('PROXY_PUBLIC_BASE_URL') || null,
+    upstream: {
+      infinityDomain: read.domain('PROXY_UPSTREAM_DOMAIN', 'infinitypro-img.infinitynewtab.com'),
+      bingImageDomain: read.domain('BING_IMAGE_DOMAIN', 'www.bing.com'),
+      bingImageMirrors: read.domains('BING_IMAGE_MIRRORS', ['cn.bing.com']),
+      bingApiOrigin: read.url('BING_API_ORIGIN', 'https://www.bing.com')!,
+      timeout: read.integer('PROXY_UPSTREAM_TIMEOUT', 15, 1, 300),
+      maxBodySize: read.integer('PROXY_MAX_BODY_SIZE', 30 * 1024 * 1024, 1)
+    },
+    proxyCache: {
+      ttl: read.integer('PROXY_CACHE_TTL', 24 * 60 * 60, 0),
+      staleTtl: read.integer('PROXY_CACHE_STALE_TTL', 7 * 24 * 60 * 60, 0)
+    },
+    signing: {
+      secret: read.string('PROXY_SIGNING_SECRET') || null,
+      ttl: read.integer('PROXY_SIGNING_TTL', 24 * 60 * 60, 1),
+      sources: read.list('PROXY_SIGNED_SOURCES')
+    },
+    allowedHosts: read.list('PROXY_ALLOWED_HOSTS').map(host => host.toLowerCase()),
+    access: {
+      allowedOrigins: optionalList('PROXY_ALLOWED_ORIGINS'),
+      allowedReferers: optionalList('PROXY_ALLOWED_REFERERS'),
+      allowEmptyReferer: read.boolean('PROXY_ALLOW_EMPTY_REFERER', true),
+      placeholderUrl: read.url('PROXY_HOTLINK_PLACEHOLDER')
+    },
+    catalog: {
+      sources: read.string('CATALOG_SOURCES'),
+      ttl: read.integer('CATALOG_CACHE_TTL', 5 * 60, 1),
+      bingTtl: read.integer('BING_CACHE_TTL', 60 * 60, 1),
+      maxStale: read.integer('CATALOG_MAX_STALE', 24 * 60 * 60, 0)
+    },
+    bing: {
+      defaultMarket: read.market('BING_DEFAULT_MARKET', 'en-US'),
+      archiveKvUrl: read.url('BING_ARCHIVE_KV_URL'),
+      archiveKvToken: read.string('BING_ARCHIVE_KV_TOKEN')
+    },
+    pagination: {
+      defaultPageSize: read.integer('DEFAULT_PAGE_SIZE', 20, 1),
+      maxPageSize: read.integer('MAX_PAGE_SIZE', 100, 1, 1000)
+    },
+    rateLimit: {
+      api: {
+        limit: read.integer('RATE_LIMIT_API', 120, 1),
+        window: read.integer('RATE_LIMIT_API_WINDOW', 60, 1)
+      },
+      image: {
+        limit: read.integer('RATE_LIMIT_IMAGE_BYTES', 200 * 1024 * 1024, 1),
+        window: read.integer('RATE_LIMIT_IMAGE_WINDOW', 60, 1)
+      },
+      apiKeys: read.list('RATE_LIMIT_API_KEYS')
+    }
+  }
+
+  if (config.pagination.defaultPageSize > config.pagination.maxPageSize) {
+    read.errors.push(`DEFAULT_PAGE_SIZE (${config.pagination.defaultPageSize}) must not exceed MAX_PAGE_SIZE (${config.pagination.maxPageSize})`)
+  }
+
+  if (!!env.BING_ARCHIVE_KV_URL?.trim() !== !!config.bing.archiveKvToken) {
+    read.errors.push('BING_ARCHIVE_KV_URL and BING_ARCHIVE_KV_TOKEN must be set together')
+  }
+
+  // 本地文件数据源是部署中的静态文件，按 PROXY_PUBLIC_BASE_URL 访问
+  if (config.catalog.sources && !config.publicBaseUrl) {
+    const files = config.catalog.sources
+      .split(',')
+      .map(entry => entry.trim().replace(/^[\w-]+=/, ''))
+      .filter(location => location && !/^https?:\/\//i.test(location))
+    if (files.length > 0) {
+      read.errors.push(`PROXY_PUBLIC_BASE_URL is required to serve the local catalog files "${files.join(', ')}"`)
+    }
+  }
+
+  if (read.errors.length > 0) {
+    throw new ConfigError(read.errors)
+  }
+  return config
+}
+
+let appConfig: AppConfig | null = null
+
+// 获取当前配置，首次调用时从环境变量加载（应用入口在导入时读取，配置不合法时启动即失败）
+export function getConfig(): AppConfig {
+  if (!appConfig) {
+    appConfig = loadConfig()
+  }
+  return appConfig
+}
+
+// 替换当前配置（各模块与中间件在请求时读取配置，替换后即生效；代理源路由在创建应用时挂载）
+export function setConfig(config: AppConfig) {
+  appConfig = config
+}
+
+// 注入配置的 Hono 环境类型，路由中通过 c.get('config') 读取
+export type ConfigEnv = {
+  Variables: {
+    config: AppConfig
+  }
+}
+
+// 将配置注入到请求上下文，未指定时注入请求时的当前配置
+export function injectConfig(config?: AppConfig): MiddlewareHandler<ConfigEnv> {
+  return async (c, next) => {
+    c.set('config', config || getConfig())
+    await next()
+  }
+}
+
+/**
+ * 由配置生成的中间件（限流、参数校验等）：请求时按当前配置取用，同一配置对象只生成一次
+ * 配置被替换后重新生成，不沿用导入时的配置快照
+ */
+export function withConfig<E extends Env = Env>(build: (config: AppConfig) => MiddlewareHandler<E>): MiddlewareHandler<E> {
+  const handlers = new WeakMap<AppConfig, MiddlewareHandler<E>>()
+
+  return (c, next) => {
+    const config = getConfig()
+    let handler = handlers.get(config)
+    if (!handler) {
+      handler = build(config)
+      handlers.set(config, handler)
+    }
+    return handler(c, next)
+  }
+}
@@ -0,0 +1,77 @@
+// 分页游标与数据版本：游标绑定数据版本与查询条件，数据更新后按原快照或上一页的最后一项继续翻页
+import { toBase64Url } from './hmac'
+import { getConfig } from './config'
+import type { AppConfig } from './config'
+
+// 游标内容（字段名保持简短以缩短游标长度）
+export interface CursorPayload {
+  v: string    // 数据版本
+  o: number    // 下一页的起始偏移
+  q: string    // 查询条件摘要
+  s?: string   // 随机排序的种子
+  k?: string   // 上一页最后一项的 _id，原版本快照不可用时据此在当前数据中定位
+}
+
+/**
+ * 解析每页数量：非法值使用默认值（DEFAULT_PAGE_SIZE），超出范围时收敛到 1~MAX_PAGE_SIZE
+ */
+export function clampPageSize(
+  value: string | number | undefined,
+  pagination: AppConfig['pagination'] = getConfig().pagination
+): number {
+  const parsed = typeof value === 'number' ? value : parseInt(value || '', 10)
+  if (isNaN(parsed)) return pagination.defaultPageSize
+  return Math.min(Math.max(parsed, 1), pagination.maxPageSize)
+}
+
+/**
+ * 字符串的短摘要（用于 ETag、查询摘要，非加密用途）
+ * 两路不同参数的 FNV-1a 风格哈希拼接为 16 位十六进制，可同步计算
+ */
+export function shortHash(value: string | Uint8Array): string {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value
+  let a = 0x811c9dc5
+  let b = 0x050c5d1f
+  for (const byte of bytes) {
+    a = Math.imul(a ^ byte, 0x01000193)
+    b = Math.imul(b ^ byte, 0x5bd1e995)
+  }
+  return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * 计算数据内容的版本号（Web Crypto 摘要，适合较大的数据）
+ */
+export async function computeVersion(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content))
+  return toBase64Url(new Uint8Array(digest)).slice(0, 16)
+}
+
+// 查询条件摘要：键排序后序列化，忽略未设置的字段
+export function hashQuery(query: object): string {
+  const entries = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return shortHash(JSON.stringify(entries))
+}
+
+export function encodeCursor(payload: CursorPayload): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))
+}
+
+// 解析游标，格式不合法时返回 null
+export function decodeCursor(cursor: string): CursorPayload | null {
+  try {
+    const base64 = cursor.replace(/-/g, '+').replace(/_/g, '/')
+    const json = new TextDecoder().decode(Uint8Array.from(atob(base64), ch => ch.charCodeAt(0)))
+    const payload = JSON.parse(json)
+
+    if (typeof payload.v !== 'string' || typeof payload.q !== 'string') return null
+    if (!Number.isInteger(payload.o) || payload.o < 0) return null
+    if (payload.s !== undefined && typeof payload.s !== 'string') return null
+    if (payload.k !== undefined && typeof payload.k !== 'string') return null
+    return payload
+  } catch {
+    return null
+  }
+}
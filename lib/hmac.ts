@@ -0,0 +1,41 @@
+// HMAC-SHA256 签名（Web Crypto，边缘运行时与 Node.js 均可用）与编码工具
+
+const encoder = new TextEncoder()
+
+// 已导入的签名密钥（按密钥内容缓存，避免每次签名都重新导入）
+const hmacKeys = new Map<string, Promise<CryptoKey>>()
+
+function importHmacKey(secret: string): Promise<CryptoKey> {
+  let key = hmacKeys.get(secret)
+  if (!key) {
+    key = crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+    hmacKeys.set(secret, key)
+  }
+  return key
+}
+
+// 计算 HMAC-SHA256
+export async function hmacSha256(secret: string, message: string): Promise<Uint8Array> {
+  const signature = await crypto.subtle.sign('HMAC', await importHmacKey(secret), encoder.encode(message))
+  return new Uint8Array(signature)
+}
+
+// 编码为 URL 安全的 base64（无填充）
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+// 定长比较，避免通过响应时间推测签名
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
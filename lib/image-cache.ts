@@ -0,0 +1,231 @@
+// 图片缓存：统一的缓存接口，内置内存 LRU 实现与 KV 存储适配器
+
+// 缓存的图片条目
+export interface CachedImage {
+  body: Uint8Array
+  headers: Record<string, string>   // 需要随缓存返回的表示头（Content-Type、ETag、X-Image-* 等）
+  storedAt: number                  // 写入时间（毫秒时间戳）
+  expiresAt: number                 // 过期时间，过期后进入 stale 状态
+  staleUntil: number                // 过期后仍可返回的截止时间
+}
+
+// 缓存查询结果
+export type CacheStatus = 'hit' | 'stale' | 'miss'
+
+export interface CacheLookup {
+  entry: CachedImage
+  status: Exclude<CacheStatus, 'miss'>
+}
+
+// 写入选项（单位：秒）
+export interface CachePutOptions {
+  ttl: number
+  staleTtl?: number
+}
+
+// 缓存占用统计
+export interface CacheUsage {
+  entries: number
+  bytes: number
+  maxBytes: number | null
+}
+
+// 缓存接口
+export interface ImageCache {
+  get(key: string): Promise<CacheLookup | null>
+  put(key: string, body: Uint8Array, headers: Record<string, string>, options: CachePutOptions): Promise<void>
+  delete(key: string): Promise<boolean>
+  usage(): CacheUsage
+}
+
+// 根据写入选项生成条目
+function createEntry(body: Uint8Array, headers: Record<string, string>, options: CachePutOptions): CachedImage {
+  const now = Date.now()
+  const expiresAt = now + options.ttl * 1000
+  return {
+    body,
+    headers,
+    storedAt: now,
+    expiresAt,
+    staleUntil: expiresAt + (options.staleTtl || 0) * 1000
+  }
+}
+
+// 判断条目状态，超过 stale 窗口返回 null
+function lookupEntry(entry: CachedImage, now: number = Date.now()): CacheLookup | null {
+  if (now < entry.expiresAt) return { entry, status: 'hit' }
+  if (now < entry.staleUntil) return { entry, status: 'stale' }
+  return null
+}
+
+/**
+ * 内存 LRU 缓存
+ * 按字节数与条目数双重限制，超出时淘汰最久未访问的条目
+ */
+export class MemoryImageCache implements ImageCache {
+  private entries = new Map<string, CachedImage>()
+  private bytes = 0
+
+  constructor(
+    private maxBytes: number = 64 * 1024 * 1024,
+    private maxEntries: number = 1000
+  ) {}
+
+  async get(key: string): Promise<CacheLookup | null> {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    const lookup = lookupEntry(entry)
+    if (!lookup) {
+      this.remove(key)
+      return null
+    }
+
+    // 重新插入以标记为最近使用
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return lookup
+  }
+
+  async put(key: string, body: Uint8Array, headers: Record<string, string>, options: CachePutOptions): Promise<void> {
+    // 单个条目超过总容量时不缓存
+    if (body.byteLength > this.maxBytes) return
+
+    this.remove(key)
+    this.entries.set(key, createEntry(body, headers, options))
+    this.bytes += body.byteLength
+
+    // 淘汰最久未使用的条目
+    for (const oldestKey of this.entries.keys()) {
+      if (this.bytes <= this.maxBytes && this.entries.size <= this.maxEntries) break
+      this.remove(oldestKey)
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.remove(key)
+  }
+
+  usage(): CacheUsage {
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes
+    }
+  }
+
+  private remove(key: string): boolean {
+    const entry = this.entries.get(key)
+    if (!entry) return false
+
+    this.entries.delete(key)
+    this.bytes -= entry.body.byteLength
+    return true
+  }
+}
+
+// KV 存储中随值保存的元数据
+export interface KVMetadata {
+  headers: Record<string, string>
+  storedAt: number
+  expiresAt: number
+  staleUntil: number
+}
+
+/**
+ * KV 存储适配接口（Cloudflare KV、Vercel KV、Upstash 等按此接口包装）
+ * expirationTtl 为存储层的物理过期时间（秒）
+ */
+export interface KVStore {
+  get(key: string): Promise<{ value: ArrayBuffer; metadata: KVMetadata } | null>
+  put(key: string, value: ArrayBuffer, options: { expirationTtl: number; metadata: KVMetadata }): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+/**
+ * 基于 KV 存储的缓存
+ * KV 无法枚举占用，字节数按当前实例的写入/删除累计，仅供参考
+ */
+export class KVImageCache implements ImageCache {
+  private sizes = new Map<string, number>()
+
+  constructor(private store: KVStore, private prefix: string = 'images-proxy:') {}
+
+  async get(key: string): Promise<CacheLookup | null> {
+    const stored = await this.store.get(this.prefix + key)
+    if (!stored) return null
+
+    const entry: CachedImage = {
+      ...stored.metadata,
+      body: new Uint8Array(stored.value)
+    }
+    return lookupEntry(entry)
+  }
+
+  async put(key: string, body: Uint8Array, headers: Record<string, string>, options: CachePutOptions): Promise<void> {
+    const { storedAt, expiresAt, staleUntil } = createEntry(body, headers, options)
+    const value = body.slice().buffer as ArrayBuffer
+
+    await this.store.put(this.prefix + key, value, {
+      // KV 通常要求过期时间不少于60秒
+      expirationTtl: Math.max(60, Math.ceil((staleUntil - storedAt) / 1000)),
+      metadata: { headers, storedAt, expiresAt, staleUntil }
+    })
+    this.sizes.set(key, body.byteLength)
+  }
+
+  async delete(key: string): Promise<boolean> {
+    await this.store.delete(this.prefix + key)
+    return this.sizes.delete(key)
+  }
+
+  usage(): CacheUsage {
+    let bytes = 0
+    for (const size of this.sizes.values()) {
+      bytes += size
+    }
+    return { entries: this.sizes.size, bytes, maxBytes: null }
+  }
+}
+
+/**
+ * 本地 KV 存储实现，用于开发与测试时替代真实的 KV 服务
+ */
+export class LocalKVStore implements KVStore {
+  private data = new Map<string, { value: ArrayBuffer; metadata: KVMetadata; expiresAt: number }>()
+
+  async get(key: string): Promise<{ value: ArrayBuffer; metadata: KVMetadata } | null> {
+    const item = this.data.get(key)
+    if (!item) return null
+
+    if (Date.now() >= item.expiresAt) {
+      this.data.delete(key)
+      return null
+    }
+    return { value: item.value, metadata: item.metadata }
+  }
+
+  async put(key: string, value: ArrayBuffer, options: { expirationTtl: number; metadata: KVMetadata }): Promise<void> {
+    this.data.set(key, {
+      value,
+      metadata: options.metadata,
+      expiresAt: Date.now() + options.expirationTtl * 1000
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    this.data.delete(key)
+  }
+}
+
+// 默认缓存实例（边缘函数实例内有效）
+let defaultImageCache: ImageCache = new MemoryImageCache()
+
+export function getImageCache(): ImageCache {
+  return defaultImageCache
+}
+
+// 替换默认缓存（例如切换为 KVImageCache）
+export function setImageCache(cache: ImageCache) {
+  defaultImageCache = cache
+}
@@ -0,0 +1,191 @@
+// 图片转换：基于 photon (WASM) 的解码、缩放与重新编码，无需原生依赖
+// AVIF 与有损 WebP 编码由 @jsquash (WASM) 提供，需先调用 initImageEncoder 完成初始化
+import { PhotonImage, SamplingFilter, resize, crop } from '@cf-wasm/photon'
+import encodeAvif, { init as initAvif } from '@jsquash/avif/encode'
+import encodeWebp, { init as initWebp } from '@jsquash/webp/encode'
+import { IMAGE_OPTIMIZATION_LIMITS } from './proxy-utils'
+import type { ImageOptimization, ImageFit, OutputFormat } from './proxy-utils'
+
+// 需要额外加载 WASM 的编码格式
+export type WasmEncoderFormat = 'avif' | 'webp'
+
+// 类型声明只覆盖了 options 参数，运行时支持直接传入 WebAssembly.Module
+type WasmEncoderInit = (module: WebAssembly.Module) => Promise<unknown>
+
+const wasmEncoderInits: Record<WasmEncoderFormat, WasmEncoderInit> = {
+  avif: initAvif as WasmEncoderInit,
+  webp: initWebp as WasmEncoderInit
+}
+
+// 已初始化的编码器
+const wasmEncoders: Partial<Record<WasmEncoderFormat, Promise<unknown>>> = {}
+
+/**
+ * 使用预编译的 WASM 模块初始化编码器
+ * 边缘运行时无法按 URL 加载 WASM，由入口文件以 `?module` 方式导入后传入
+ * WebP 需传入 SIMD 版本（webp_enc_simd.wasm）
+ * 初始化失败时记录错误并停用该格式，返回的 Promise 不会被拒绝（结果表示编码器是否可用）
+ */
+export function initImageEncoder(format: WasmEncoderFormat, module: WebAssembly.Module): Promise<boolean> {
+  if (!wasmEncoders[format]) {
+    const ready = wasmEncoderInits[format](module)
+    wasmEncoders[format] = ready
+    ready.catch(error => {
+      console.error(`Failed to initialize ${format} encoder, disabling it:`, error)
+      if (wasmEncoders[format] === ready) delete wasmEncoders[format]
+    })
+  }
+  return wasmEncoders[format]!.then(() => true, () => false)
+}
+
+// 当前可编码的输出格式（未初始化 WebP 编码器时由 photon 无损编码）
+export function getAvailableOutputFormats(): OutputFormat[] {
+  return wasmEncoders.avif ? ['avif', 'webp', 'jpeg', 'png'] : ['webp', 'jpeg', 'png']
+}
+
+// 可用于 Accept 协商的输出格式：仅包含有损编码器已就绪的格式，避免无损 WebP 比原图更大
+export function getNegotiableOutputFormats(): OutputFormat[] {
+  return (['avif', 'webp'] as WasmEncoderFormat[]).filter(format => wasmEncoders[format])
+}
+
+// 转换结果
+export interface TransformResult {
+  data: Uint8Array
+  width: number
+  height: number
+  format: OutputFormat
+  quality: number
+  fit: ImageFit
+}
+
+/**
+ * 根据原图尺寸与目标尺寸计算缩放后的尺寸
+ * 不会放大原图；只给出宽或高时按原比例计算另一边
+ */
+function computeTargetSize(
+  srcWidth: number,
+  srcHeight: number,
+  optimization: ImageOptimization,
+  fit: ImageFit
+): { width: number; height: number; cropWidth: number; cropHeight: number } {
+  const { width, height } = optimization
+
+  if (!width && !height) {
+    return { width: srcWidth, height: srcHeight, cropWidth: srcWidth, cropHeight: srcHeight }
+  }
+
+  // 只指定一边时等比缩放
+  if (!width || !height) {
+    const scale = Math.min(1, width ? width / srcWidth : height! / srcHeight)
+    const w = Math.max(1, Math.round(srcWidth * scale))
+    const h = Math.max(1, Math.round(srcHeight * scale))
+    return { width: w, height: h, cropWidth: w, cropHeight: h }
+  }
+
+  const boxWidth = Math.min(width, srcWidth)
+  const boxHeight = Math.min(height, srcHeight)
+
+  if (fit === 'fill') {
+    return { width: boxWidth, height: boxHeight, cropWidth: boxWidth, cropHeight: boxHeight }
+  }
+
+  if (fit === 'contain') {
+    const scale = Math.min(1, width / srcWidth, height / srcHeight)
+    const w = Math.max(1, Math.round(srcWidth * scale))
+    const h = Math.max(1, Math.round(srcHeight * scale))
+    return { width: w, height: h, cropWidth: w, cropHeight: h }
+  }
+
+  // cover：先缩放到完全覆盖目标区域，再居中裁剪
+  const scale = Math.min(1, Math.max(width / srcWidth, height / srcHeight))
+  const w = Math.max(boxWidth, Math.round(srcWidth * scale))
+  const h = Math.max(boxHeight, Math.round(srcHeight * scale))
+  return { width: w, height: h, cropWidth: boxWidth, cropHeight: boxHeight }
+}
+
+// 使用 @jsquash 编码器将 photon 图片编码为 AVIF/WebP
+async function encodeWithWasm(image: PhotonImage, format: WasmEncoderFormat, quality: number): Promise<Uint8Array> {
+  const encoder = wasmEncoders[format]
+  if (!encoder) {
+    throw new Error(`${format.toUpperCase()} encoder is not initialized`)
+  }
+  await encoder
+
+  const pixels = image.get_raw_pixels()
+  const imageData = {
+    data: new Uint8ClampedArray(pixels.buffer, pixels.byteOffset, pixels.byteLength),
+    width: image.get_width(),
+    height: image.get_height(),
+    colorSpace: 'srgb'
+  } as ImageData
+
+  // AVIF 的 speed 取较大值以适应边缘函数的执行时间
+  const output = format === 'avif'
+    ? await encodeAvif(imageData, { quality, speed: 8 })
+    : await encodeWebp(imageData, { quality })
+  return new Uint8Array(output)
+}
+
+/**
+ * 对图片执行缩放/质量/格式转换
+ * @param input 原始图片字节
+ * @param optimization 优化参数（已完成范围校验）
+ * @param fallbackFormat 未指定输出格式时使用的格式（通常为原图格式）
+ */
+export async function transformImage(
+  input: Uint8Array,
+  optimization: ImageOptimization,
+  fallbackFormat: OutputFormat = 'jpeg'
+): Promise<TransformResult> {
+  const fit: ImageFit = optimization.fit || 'cover'
+  const format: OutputFormat = optimization.format || fallbackFormat
+  const quality = optimization.quality || IMAGE_OPTIMIZATION_LIMITS.defaultQuality
+
+  const source = PhotonImage.new_from_byteslice(input)
+  const images: PhotonImage[] = [source]
+
+  try {
+    const srcWidth = source.get_width()
+    const srcHeight = source.get_height()
+    const target = computeTargetSize(srcWidth, srcHeight, optimization, fit)
+
+    let image = source
+    if (target.width !== srcWidth || target.height !== srcHeight) {
+      image = resize(image, target.width, target.height, SamplingFilter.Lanczos3)
+      images.push(image)
+    }
+
+    if (target.cropWidth !== target.width || target.cropHeight !== target.height) {
+      const x = Math.floor((target.width - target.cropWidth) / 2)
+      const y = Math.floor((target.height - target.cropHeight) / 2)
+      image = crop(image, x, y, x + target.cropWidth, y + target.cropHeight)
+      images.push(image)
+    }
+
+    let data: Uint8Array
+    if (format === 'avif' || (format === 'webp' && wasmEncoders.webp)) {
+      data = await encodeWithWasm(image, format, quality)
+    } else if (format === 'jpeg') {
+      data = image.get_bytes_jpeg(quality)
+    } else if (format === 'webp') {
+      // photon 的 WebP 编码为无损编码，不支持 quality
+      data = image.get_bytes_webp()
+    } else {
+      data = image.get_bytes()
+    }
+
+    return {
+      data,
+      width: image.get_width(),
+      height: image.get_height(),
+      format,
+      quality,
+      fit
+    }
+  } finally {
+    // 释放 WASM 内存
+    for (const image of images) {
+      image.free()
+    }
+  }
+}
@@ -0,0 +1,343 @@
+// 代理指标：按代理源、路由、状态码分类与缓存结果分组的请求数、字节数与延迟直方图
+import type { Context, MiddlewareHandler } from 'hono'
+
+export type StatusClass = '2xx' | '3xx' | '4xx' | '5xx'
+export type CacheResult = 'hit' | 'stale' | 'miss' | 'not-modified' | 'none'
+
+// 指标标签
+export interface MetricLabels {
+  source: string
+  route: string
+  status: StatusClass
+  cache: CacheResult
+}
+
+// 一次请求的采样
+export interface RequestSample extends MetricLabels {
+  duration: number  // 总耗时（毫秒，流式响应为传输完成的时间）
+  bytes: number     // 实际发送的响应体字节数
+  aborted: boolean  // 响应体传输中途出错
+}
+
+// 延迟直方图的桶上界（毫秒），最后一个桶为 +Inf
+export const LATENCY_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000]
+
+// 一组标签对应的累计值
+export interface MetricSeries {
+  labels: MetricLabels
+  requests: number
+  aborted: number
+  bytes: number
+  durationSum: number
+  buckets: number[]   // 各桶的计数（非累计），长度为 LATENCY_BUCKETS.length + 1
+  lastRequestAt: number
+}
+
+/**
+ * 指标存储接口
+ * 默认的内存存储只统计当前实例；多实例部署时可实现为写入 Redis/KV 等共享存储，
+ * snapshot 返回合并后的结果（可使用 mergeSeries 合并各实例的数据）
+ */
+export interface MetricsStore {
+  record(sample: RequestSample): void | Promise<void>
+  snapshot(): Promise<MetricSeries[]>
+  reset(): void | Promise<void>
+}
+
+function seriesKey(labels: MetricLabels): string {
+  return `${labels.source}|${labels.route}|${labels.status}|${labels.cache}`
+}
+
+function createSeries(labels: MetricLabels): MetricSeries {
+  return {
+    labels: { ...labels },
+    requests: 0,
+    aborted: 0,
+    bytes: 0,
+    durationSum: 0,
+    buckets: new Array(LATENCY_BUCKETS.length + 1).fill(0),
+    lastRequestAt: 0
+  }
+}
+
+function bucketIndex(duration: number): number {
+  const index = LATENCY_BUCKETS.findIndex(bound => duration <= bound)
+  return index === -1 ? LATENCY_BUCKETS.length : index
+}
+
+// 合并多组序列（相同标签的累加），用于汇总多个实例或多个标签组合
+export function mergeSeries(...groups: MetricSeries[][]): MetricSeries[] {
+  const merged = new Map<string, MetricSeries>()
+
+  for (const group of groups) {
+    for (const series of group) {
+      const key = seriesKey(series.labels)
+      const target = merged.get(key) || createSeries(series.labels)
+      target.requests += series.requests
+      target.aborted += series.aborted
+      target.bytes += series.bytes
+      target.durationSum += series.durationSum
+      series.buckets.forEach((count, i) => { target.buckets[i] += count })
+      target.lastRequestAt = Math.max(target.lastRequestAt, series.lastRequestAt)
+      merged.set(key, target)
+    }
+  }
+
+  return [...merged.values()]
+}
+
+// 内存指标存储（边缘函数实例内有效）
+export class MemoryMetricsStore implements MetricsStore {
+  private series = new Map<string, MetricSeries>()
+
+  record(sample: RequestSample) {
+    const key = seriesKey(sample)
+    let series = this.series.get(key)
+    if (!series) {
+      series = createSeries({ source: sample.source, route: sample.route, status: sample.status, cache: sample.cache })
+      this.series.set(key, series)
+    }
+
+    series.requests++
+    series.bytes += sample.bytes
+    series.durationSum += sample.duration
+    series.buckets[bucketIndex(sample.duration)]++
+    series.lastRequestAt = Date.now()
+    if (sample.aborted) series.aborted++
+  }
+
+  async snapshot(): Promise<MetricSeries[]> {
+    return mergeSeries([...this.series.values()])
+  }
+
+  reset() {
+    this.series.clear()
+  }
+}
+
+let metricsStore: MetricsStore = new MemoryMetricsStore()
+
+export function getMetricsStore(): MetricsStore {
+  return metricsStore
+}
+
+// 替换默认指标存储
+export function setMetricsStore(store: MetricsStore) {
+  metricsStore = store
+}
+
+export function getStatusClass(status: number): StatusClass {
+  if (status >= 500) return '5xx'
+  if (status >= 400) return '4xx'
+  if (status >= 300) return '3xx'
+  return '2xx'
+}
+
+const CACHE_RESULTS: CacheResult[] = ['hit', 'stale', 'miss', 'not-modified']
+
+function getCacheResult(header: string | null): CacheResult {
+  return CACHE_RESULTS.includes(header as CacheResult) ? header as CacheResult : 'none'
+}
+
+// 转发响应体并统计字节数，传输完成或出错时回调
+function meterBody(
+  body: ReadableStream<Uint8Array>,
+  onDone: (bytes: number, aborted: boolean) => void
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader()
+  let bytes = 0
+  let finished = false
+  const finish = (aborted: boolean) => {
+    if (finished) return
+    finished = true
+    onDone(bytes, aborted)
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (done) {
+          finish(false)
+          controller.close()
+          return
+        }
+        bytes += value.byteLength
+        controller.enqueue(value)
+      } catch (error) {
+        finish(true)
+        controller.error(error)
+      }
+    },
+    cancel(reason) {
+      // 客户端提前断开
+      finish(true)
+      return reader.cancel(reason)
+    }
+  })
+}
+
+/**
+ * 指标采集中间件（CORS 预检不计入）
+ * 响应状态、X-Cache-Status 与实际发送的字节数在响应结束后记录
+ * @param source 代理源名称
+ * @param getRoute 由请求得到路由标签（应为低基数的路由模板）
+ */
+export function collectMetrics(source: string, getRoute: (c: Context) => string): MiddlewareHandler {
+  return async (c, next) => {
+    if (c.req.method === 'OPTIONS') {
+      return next()
+    }
+
+    const startTime = Date.now()
+    await next()
+
+    const store = getMetricsStore()
+    const labels: MetricLabels = {
+      source,
+      route: getRoute(c),
+      status: getStatusClass(c.res.status),
+      cache: getCacheResult(c.res.headers.get('x-cache-status'))
+    }
+    const record = (bytes: number, aborted: boolean) => {
+      Promise.resolve(store.record({ ...labels, duration: Date.now() - startTime, bytes, aborted }))
+        .catch(error => console.error('Metrics store error:', error))
+    }
+
+    if (!c.res.body || c.req.method === 'HEAD') {
+      record(0, false)
+      return
+    }
+
+    c.res = new Response(meterBody(c.res.body, record), c.res)
+  }
+}
+
+// 延迟分位数（由直方图线性插值估算，单位毫秒）
+export function estimatePercentile(buckets: number[], percentile: number): number {
+  const total = buckets.reduce((sum, count) => sum + count, 0)
+  if (total === 0) return 0
+
+  const rank = total * percentile
+  let cumulative = 0
+  for (let i = 0; i < buckets.length; i++) {
+    if (cumulative + buckets[i] >= rank && buckets[i] > 0) {
+      const lower = i === 0 ? 0 : LATENCY_BUCKETS[i - 1]
+      // +Inf 桶无法插值，返回最大的有限上界
+      if (i === LATENCY_BUCKETS.length) return lower
+      const upper = LATENCY_BUCKETS[i]
+      return Math.round(lower + (upper - lower) * ((rank - cumulative) / buckets[i]))
+    }
+    cumulative += buckets[i]
+  }
+  return LATENCY_BUCKETS[LATENCY_BUCKETS.length - 1]
+}
+
+// 汇总后的统计
+export interface MetricsSummary {
+  requests: number
+  aborted: number
+  bytes: number
+  averageResponseTime: number
+  latency: { p50: number; p95: number; p99: number }
+  lastRequestTime: string | null
+}
+
+// 汇总任意一组序列
+export function summarizeSeries(series: MetricSeries[]): MetricsSummary {
+  const [total] = mergeSeries(series.map(item => ({
+    ...item,
+    labels: { source: '', route: '', status: '2xx', cache: 'none' }
+  })))
+
+  if (!total) {
+    return {
+      requests: 0,
+      aborted: 0,
+      bytes: 0,
+      averageResponseTime: 0,
+      latency: { p50: 0, p95: 0, p99: 0 },
+      lastRequestTime: null
+    }
+  }
+
+  return {
+    requests: total.requests,
+    aborted: total.aborted,
+    bytes: total.bytes,
+    averageResponseTime: Math.round(total.durationSum / total.requests),
+    latency: {
+      p50: estimatePercentile(total.buckets, 0.5),
+      p95: estimatePercentile(total.buckets, 0.95),
+      p99: estimatePercentile(total.buckets, 0.99)
+    },
+    lastRequestTime: new Date(total.lastRequestAt).toISOString()
+  }
+}
+
+// 按某个标签分组汇总
+export function groupSeries(series: MetricSeries[], label: keyof MetricLabels): Record<string, MetricsSummary> {
+  const groups: Record<string, MetricSeries[]> = {}
+  for (const item of series) {
+    (groups[item.labels[label]] ||= []).push(item)
+  }
+
+  const result: Record<string, MetricsSummary> = {}
+  for (const [key, group] of Object.entries(groups)) {
+    result[key] = summarizeSeries(group)
+  }
+  return result
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const parts = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`)
+  return `{${parts.join(',')}}`
+}
+
+// Prometheus 文本格式的 Content-Type
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8'
+
+/**
+ * 输出 Prometheus 文本格式
+ */
+export function formatPrometheusMetrics(series: MetricSeries[]): string {
+  const lines: string[] = []
+  const labelsOf = (item: MetricSeries) => ({ ...item.labels })
+
+  lines.push('# HELP image_proxy_requests_total Total number of proxy requests.')
+  lines.push('# TYPE image_proxy_requests_total counter')
+  for (const item of series) {
+    lines.push(`image_proxy_requests_total${formatLabels(labelsOf(item))} ${item.requests}`)
+  }
+
+  lines.push('# HELP image_proxy_aborted_responses_total Responses whose body failed or was cancelled mid-transfer.')
+  lines.push('# TYPE image_proxy_aborted_responses_total counter')
+  for (const item of series) {
+    lines.push(`image_proxy_aborted_responses_total${formatLabels(labelsOf(item))} ${item.aborted}`)
+  }
+
+  lines.push('# HELP image_proxy_response_bytes_total Total response body bytes served.')
+  lines.push('# TYPE image_proxy_response_bytes_total counter')
+  for (const item of series) {
+    lines.push(`image_proxy_response_bytes_total${formatLabels(labelsOf(item))} ${item.bytes}`)
+  }
+
+  lines.push('# HELP image_proxy_request_duration_seconds Request duration in seconds.')
+  lines.push('# TYPE image_proxy_request_duration_seconds histogram')
+  for (const item of series) {
+    let cumulative = 0
+    item.buckets.forEach((count, i) => {
+      cumulative += count
+      const le = i < LATENCY_BUCKETS.length ? (LATENCY_BUCKETS[i] / 1000).toString() : '+Inf'
+      lines.push(`image_proxy_request_duration_seconds_bucket${formatLabels({ ...labelsOf(item), le })} ${cumulative}`)
+    })
+    lines.push(`image_proxy_request_duration_seconds_sum${formatLabels(labelsOf(item))} ${item.durationSum / 1000}`)
+    lines.push(`image_proxy_request_duration_seconds_count${formatLabels(labelsOf(item))} ${item.requests}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,508 @@
+// 接口定义：v1 与图片路由的查询参数、响应结构，以及由此生成的 OpenAPI 3 文档
+import type { QuerySchema } from './schema'
+import { toOpenApiParameters } from './schema'
+import { ASPECT_FILTERS, WALLPAPER_SORTS, DEFAULT_COLOR_TOLERANCE } from './wallpaper-filter'
+import { BING_MAX_IDX, BING_MAX_COUNT, BING_RESOLUTIONS, DEFAULT_BING_RESOLUTION } from './bing'
+import { MAX_SESSION_TOKEN_LENGTH } from './recent-history'
+import {
+  getProxySources,
+  GENERIC_PROXY_PATH,
+  IMAGE_OPTIMIZATION_LIMITS,
+  SUPPORTED_OUTPUT_FORMATS,
+  SUPPORTED_FITS,
+  SIGNATURE_PARAM,
+  EXPIRES_PARAM
+} from './proxy-utils'
+import { getConfig } from './config'
+import type { AppConfig } from './config'
+
+const { minDimension, maxDimension, minQuality, maxQuality } = IMAGE_OPTIMIZATION_LIMITS
+
+// ---------- 查询参数 ----------
+
+// 图片优化参数（w/h/q 超出范围时收敛）
+export const IMAGE_OPTIMIZATION_QUERY: QuerySchema = {
+  w: { type: 'integer', minimum: minDimension, maximum: maxDimension, clamp: true, description: '输出宽度（像素）' },
+  h: { type: 'integer', minimum: minDimension, maximum: maxDimension, clamp: true, description: '输出高度（像素）' },
+  q: { type: 'integer', minimum: minQuality, maximum: maxQuality, clamp: true, description: '输出质量' },
+  f: { type: 'string', enum: [...SUPPORTED_OUTPUT_FORMATS, 'jpg'], description: '输出格式，未指定且指定了其他转换参数时按 Accept 协商' },
+  fit: { type: 'string', enum: SUPPORTED_FITS, description: '同时指定宽高时的缩放方式' }
+}
+
+// 图片路由：优化参数与 URL 签名
+export const IMAGE_QUERY: QuerySchema = {
+  ...IMAGE_OPTIMIZATION_QUERY,
+  [EXPIRES_PARAM]: { type: 'integer', minimum: 0, description: '签名过期时间（Unix 秒），强制签名的代理源必填' },
+  [SIGNATURE_PARAM]: { type: 'string', pattern: '[A-Za-z0-9_-]+', description: 'URL 签名（HMAC-SHA256，base64url）' }
+}
+
+// 通用图片代理
+export const GENERIC_PROXY_QUERY: QuerySchema = {
+  url: { type: 'string', required: true, pattern: 'https?://.+', description: '编码后的图片地址', example: 'https://images.unsplash.com/photo.jpg' },
+  ...IMAGE_QUERY
+}
+
+// 壁纸过滤与排序参数
+const WALLPAPER_FILTER_QUERY: QuerySchema = {
+  source: { type: 'string', description: '按来源过滤，多个来源用逗号分隔', example: 'Unsplash' },
+  color: { type: 'string', pattern: '#?([0-9a-fA-F]{3}|[0-9a-fA-F]{6})', description: '十六进制颜色，按调色板中最接近的颜色匹配', example: '#1a2b3c' },
+  colorTolerance: { type: 'integer', minimum: 0, maximum: 765, default: DEFAULT_COLOR_TOLERANCE, description: '颜色匹配容差（redmean 色差）' },
+  minWidth: { type: 'integer', minimum: 0, description: '最低宽度（像素）' },
+  minHeight: { type: 'integer', minimum: 0, description: '最低高度（像素）' },
+  aspect: { type: 'string', enum: ASPECT_FILTERS, description: '宽高比' },
+  seed: { type: 'string', maxLength: 64, description: '随机种子，相同种子与过滤条件返回相同结果' }
+}
+
+// 壁纸列表参数，分页大小的范围与默认值取自配置
+export function getWallpaperListQuery(config: AppConfig = getConfig()): QuerySchema {
+  return {
+    page: { type: 'integer', minimum: 1, default: 1, description: '页码，指定 cursor 时忽略' },
+    pageSize: {
+      type: 'integer',
+      minimum: 1,
+      maximum: config.pagination.maxPageSize,
+      clamp: true,
+      default: config.pagination.defaultPageSize,
+      description: '每页数量，超出范围时收敛'
+    },
+    cursor: {
+      type: 'string',
+      maxLength: 512,
+      description: '上一页返回的 nextCursor，数据更新后仍按原版本翻页。'
+        + '原版本快照只保存在处理请求的实例内存中（最多3个版本），'
+        + '快照不可用时从当前数据中上一页最后一项之后继续，此时可能包含翻页期间新增或变动的条目'
+    },
+    ...WALLPAPER_FILTER_QUERY,
+    sort: { type: 'string', enum: WALLPAPER_SORTS, description: '排序方式，指定 color 且未指定排序时按颜色接近程度排序' },
+    order: { type: 'string', enum: ['asc', 'desc'], default: 'desc', description: 'rate/like 的排序方向' },
+    ...IMAGE_OPTIMIZATION_QUERY
+  }
+}
+
+export const RANDOM_QUERY: QuerySchema = {
+  ...WALLPAPER_FILTER_QUERY,
+  session: { type: 'string', maxLength: MAX_SESSION_TOKEN_LENGTH, description: '会话令牌（也可通过 X-Session-Token 请求头传递），用于避开最近返回过的壁纸' },
+  redirect: { type: 'string', enum: ['0', '1', 'true', 'false'], description: '为 1 时 302 重定向到代理后的图片地址' },
+  ...IMAGE_OPTIMIZATION_QUERY
+}
+
+// 市场参数，默认值取自配置
+function getMarketQuery(config: AppConfig): QuerySchema {
+  return {
+    mkt: {
+      type: 'string',
+      pattern: '[a-zA-Z]{2}-[a-zA-Z]{2}',
+      default: config.bing.defaultMarket,
+      description: '市场代码',
+      example: 'zh-CN'
+    }
+  }
+}
+
+export function getBingListQuery(config: AppConfig = getConfig()): QuerySchema {
+  return {
+    ...getMarketQuery(config),
+    idx: { type: 'integer', minimum: 0, maximum: BING_MAX_IDX, default: 0, description: '起始偏移，0为今天' },
+    n: { type: 'integer', minimum: 1, maximum: BING_MAX_COUNT, default: BING_MAX_COUNT, description: '数量' },
+    from: { type: 'string', pattern: '\\d{8}', description: '按日期范围查询归档的起始日期（yyyymmdd）', example: '20250101' },
+    to: { type: 'string', pattern: '\\d{8}', description: '归档查询的结束日期（yyyymmdd），默认为今天', example: '20250131' }
+  }
+}
+
+export function getBingImageQuery(config: AppConfig = getConfig()): QuerySchema {
+  return {
+    ...getMarketQuery(config),
+    res: { type: 'string', enum: BING_RESOLUTIONS, default: DEFAULT_BING_RESOLUTION, description: '分辨率' }
+  }
+}
+
+// ---------- 响应结构 ----------
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+// v1 接口的统一响应格式
+function envelope(data: object): object {
+  return {
+    type: 'object',
+    required: ['code', 'data', 'message'],
+    properties: {
+      code: { type: 'integer' },
+      data,
+      message: { type: 'string' }
+    }
+  }
+}
+
+export const COMPONENT_SCHEMAS: Record<string, object> = {
+  FieldError: {
+    type: 'object',
+    required: ['field', 'message'],
+    properties: {
+      field: { type: 'string' },
+      message: { type: 'string' }
+    }
+  },
+  ValidationError: {
+    type: 'object',
+    required: ['code', 'message', 'errors'],
+    properties: {
+      code: { type: 'integer', enum: [400] },
+      data: { nullable: true },
+      message: { type: 'string' },
+      errors: { type: 'array', items: ref('FieldError') }
+    }
+  },
+  Error: envelope({ nullable: true }),
+  ImageError: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      reason: { type: 'string' },
+      errors: { type: 'array', items: ref('FieldError') }
+    }
+  },
+  CatalogInfo: {
+    type: 'object',
+    properties: {
+      freshness: { type: 'string', enum: ['fresh', 'stale', 'empty'] },
+      age: { type: 'integer', description: '数据的年龄（秒）' },
+      fetchedAt: { type: 'string', format: 'date-time', nullable: true }
+    }
+  },
+  WallpaperItem: {
+    type: 'object',
+    required: ['_id', 'imgId', 'src', 'source'],
+    properties: {
+      _id: { type: 'string' },
+      imgId: { type: 'string' },
+      src: {
+        type: 'object',
+        required: ['rawSrc'],
+        properties: {
+          rawSrc: { type: 'string', format: 'uri' },
+          proxyUrl: { type: 'string', format: 'uri' },
+          thumbnailUrl: { type: 'string', format: 'uri' },
+          optimizedUrl: { type: 'string', format: 'uri', description: '指定图片优化参数时返回' }
+        }
+      },
+      colors: { type: 'array', items: { type: 'string' } },
+      rate: { type: 'number' },
+      like: { type: 'number' },
+      dimensions: { type: 'string', example: '1920x1080' },
+      source: { type: 'string' },
+      provider: { type: 'string', description: '条目来自的数据源' }
+    }
+  },
+  WallpaperList: envelope({
+    type: 'object',
+    required: ['list', 'total', 'page', 'totalPage'],
+    properties: {
+      list: { type: 'array', items: ref('WallpaperItem') },
+      total: { type: 'integer' },
+      page: { type: 'integer' },
+      totalPage: { type: 'integer' },
+      seed: { type: 'string', description: '随机排序使用的种子' },
+      version: { type: 'string', description: '数据版本' },
+      nextCursor: { type: 'string', nullable: true },
+      catalog: ref('CatalogInfo')
+    }
+  }),
+  RandomWallpaper: envelope(ref('WallpaperItem')),
+  BingWallpaperItem: {
+    type: 'object',
+    required: ['startdate', 'urlbase'],
+    properties: {
+      startdate: { type: 'string', example: '20250101' },
+      fullstartdate: { type: 'string' },
+      enddate: { type: 'string' },
+      url: { type: 'string' },
+      urlbase: { type: 'string' },
+      copyright: { type: 'string' },
+      copyrightlink: { type: 'string' },
+      title: { type: 'string' },
+      hsh: { type: 'string' },
+      variants: {
+        type: 'object',
+        description: '各分辨率经代理的图片地址',
+        additionalProperties: { type: 'string', format: 'uri' }
+      }
+    }
+  },
+  BingWallpaperList: envelope({
+    type: 'object',
+    required: ['list', 'total', 'date', 'market'],
+    properties: {
+      url: { type: 'string', description: '最新一张壁纸默认分辨率经代理的图片地址' },
+      list: { type: 'array', items: ref('BingWallpaperItem') },
+      total: { type: 'integer' },
+      date: { type: 'string' },
+      market: { type: 'string' },
+      catalog: ref('CatalogInfo')
+    }
+  }),
+  BingCaption: envelope({
+    type: 'object',
+    properties: {
+      date: { type: 'string' },
+      market: { type: 'string' },
+      title: { type: 'string' },
+      copyright: { type: 'string' },
+      copyrightlink: { type: 'string' }
+    }
+  }),
+  Sources: envelope({ type: 'array', items: { type: 'string' } }),
+  Health: envelope({
+    type: 'object',
+    properties: {
+      service: { type: 'string' },
+      status: { type: 'string', enum: ['healthy', 'degraded'] },
+      catalogs: { type: 'object' },
+      endpoints: { type: 'array', items: { type: 'string' } },
+      docs: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  }),
+  ProxyHealth: {
+    type: 'object',
+    properties: {
+      service: { type: 'string' },
+      status: { type: 'string', enum: ['healthy', 'degraded', 'unhealthy'] },
+      upstreams: { type: 'array', items: { type: 'object' } },
+      usage: { type: 'string' },
+      example: { type: 'string' },
+      timestamp: { type: 'string', format: 'date-time' }
+    }
+  }
+}
+
+// ---------- 路由 ----------
+
+export interface ApiResponseSpec {
+  description: string
+  schema?: object
+  contentType?: string  // 默认 application/json
+}
+
+export interface ApiRoute {
+  path: string                                  // OpenAPI 路径（{param} 形式）
+  summary: string
+  tag: string
+  query?: QuerySchema
+  pathParams?: Record<string, { description: string; example?: string }>
+  responses: Record<string, ApiResponseSpec>
+}
+
+const json = (name: string, description: string): ApiResponseSpec => ({ description, schema: ref(name) })
+const invalid = json('ValidationError', '参数不合法')
+const imageInvalid = json('ImageError', '参数不合法')
+
+// v1 接口（路径相对于 /api/v1）
+export function getV1Routes(config: AppConfig = getConfig()): ApiRoute[] {
+  return [
+    {
+      path: '/getWallpaperList',
+      summary: '分页获取壁纸列表，支持过滤、排序与游标翻页',
+      tag: 'Wallpaper',
+      query: getWallpaperListQuery(config),
+      responses: {
+        200: json('WallpaperList', '壁纸列表'),
+        304: { description: 'If-None-Match 命中' },
+        400: invalid,
+        410: json('WallpaperList', '游标无法续接：原版本快照不可用，且为随机排序或上一页最后一项已不存在，需从第一页重新开始'),
+        500: json('Error', '数据加载失败')
+      }
+    },
+    {
+      path: '/random',
+      summary: '随机获取一张壁纸',
+      tag: 'Wallpaper',
+      query: RANDOM_QUERY,
+      responses: {
+        200: json('RandomWallpaper', '随机壁纸'),
+        302: { description: 'redirect=1 时重定向到图片' },
+        400: invalid,
+        404: json('Error', '没有符合条件的壁纸')
+      }
+    },
+    {
+      path: '/getBingWallpaperList',
+      summary: '获取 Bing 每日壁纸列表，指定 from/to 时查询归档',
+      tag: 'Bing',
+      query: getBingListQuery(config),
+      responses: {
+        200: json('BingWallpaperList', 'Bing 壁纸列表'),
+        304: { description: 'If-None-Match 命中' },
+        400: invalid,
+        500: json('Error', '数据加载失败')
+      }
+    },
+    {
+      path: '/bing/{date}',
+      summary: '重定向到某一天 Bing 壁纸经代理的图片',
+      tag: 'Bing',
+      query: getBingImageQuery(config),
+      pathParams: { date: { description: 'today 或 yyyymmdd', example: 'today' } },
+      responses: {
+        302: { description: '重定向到图片' },
+        400: invalid,
+        404: json('Error', '该日期没有壁纸')
+      }
+    },
+    {
+      path: '/bing/{date}/caption',
+      summary: '获取某一天 Bing 壁纸的标题与版权信息',
+      tag: 'Bing',
+      query: getMarketQuery(config),
+      pathParams: { date: { description: 'today 或 yyyymmdd', example: 'today' } },
+      responses: {
+        200: json('BingCaption', '标题与版权信息'),
+        400: invalid,
+        404: json('Error', '该日期没有壁纸')
+      }
+    },
+    {
+      path: '/getSources',
+      summary: '获取可用的壁纸来源',
+      tag: 'Wallpaper',
+      responses: { 200: json('Sources', '来源列表') }
+    },
+    {
+      path: '/health',
+      summary: '服务与数据缓存状态',
+      tag: 'Service',
+      responses: { 200: json('Health', '服务状态') }
+    },
+    {
+      path: '/openapi.json',
+      summary: 'OpenAPI 3 文档',
+      tag: 'Service',
+      responses: { 200: { description: 'OpenAPI 文档', schema: { type: 'object' } } }
+    },
+    {
+      path: '/docs',
+      summary: '接口文档页面',
+      tag: 'Service',
+      responses: { 200: { description: 'HTML 页面', contentType: 'text/html', schema: { type: 'string' } } }
+    }
+  ]
+}
+
+const IMAGE_RESPONSES: Record<string, ApiResponseSpec> = {
+  200: { description: '图片', contentType: 'image/*', schema: { type: 'string', format: 'binary' } },
+  206: { description: 'Range 请求的部分内容', contentType: 'image/*', schema: { type: 'string', format: 'binary' } },
+  304: { description: '条件请求命中' },
+  400: imageInvalid,
+  403: json('ImageError', '防盗链或签名校验未通过'),
+  404: json('ImageError', '图片不存在'),
+  502: json('ImageError', '上游请求失败')
+}
+
+// 图片路由（完整路径）
+export function getImageRoutes(): ApiRoute[] {
+  const routes: ApiRoute[] = []
+
+  for (const source of getProxySources()) {
+    routes.push({
+      path: `${source.proxyPath}/{path}`,
+      summary: `代理 ${source.displayName} 图片`,
+      tag: 'Image',
+      query: IMAGE_QUERY,
+      pathParams: { path: { description: '图片路径', example: source.example } },
+      responses: IMAGE_RESPONSES
+    }, {
+      path: `${source.proxyPath}/health`,
+      summary: `${source.displayName} 代理的上游状态`,
+      tag: 'Image',
+      responses: { 200: json('ProxyHealth', '代理状态') }
+    })
+  }
+
+  routes.push({
+    path: GENERIC_PROXY_PATH,
+    summary: '通用图片代理（目标主机需在白名单内）',
+    tag: 'Image',
+    query: GENERIC_PROXY_QUERY,
+    responses: IMAGE_RESPONSES
+  })
+
+  return routes
+}
+
+// 路由转换为 OpenAPI 操作
+function toOperation(route: ApiRoute): object {
+  const pathParams = Object.entries(route.pathParams || {}).map(([name, param]) => ({
+    name,
+    in: 'path',
+    required: true,
+    description: param.description,
+    schema: { type: 'string' },
+    example: param.example
+  }))
+
+  const responses: Record<string, object> = {}
+  for (const [status, response] of Object.entries(route.responses)) {
+    responses[status] = response.schema
+      ? { description: response.description, content: { [response.contentType || 'application/json']: { schema: response.schema } } }
+      : { description: response.description }
+  }
+
+  return {
+    summary: route.summary,
+    tags: [route.tag],
+    parameters: [...pathParams, ...toOpenApiParameters(route.query || {})],
+    responses
+  }
+}
+
+/**
+ * 生成 OpenAPI 3 文档
+ * @param serverUrl 服务的根地址（如 https://example.com）
+ * @param config 参数默认值与范围所依据的配置
+ */
+export function buildOpenApiDocument(serverUrl: string, config: AppConfig = getConfig()): object {
+  const paths: Record<string, object> = {}
+  for (const route of getV1Routes(config)) {
+    paths[`/api/v1${route.path}`] = { get: toOperation(route) }
+  }
+  for (const route of getImageRoutes()) {
+    paths[route.path] = { get: toOperation(route) }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Wallpaper API',
+      version: '1.0.0',
+      description: '壁纸列表、Bing 每日壁纸与图片代理接口'
+    },
+    servers: [{ url: serverUrl }],
+    paths,
+    components: { schemas: COMPONENT_SCHEMAS }
+  }
+}
+
+// Swagger UI 静态资源：固定版本并校验完整性（SRI），升级版本时需重新计算哈希
+const SWAGGER_UI_BASE = 'https://cdn.jsdelivr.net/npm/swagger-ui-dist@5.33.0'
+const SWAGGER_UI_CSS_INTEGRITY = 'sha384-Ov4/wv3j2bmct8cDc5X4ngJZohVPzEmc6uDPH8WeljUxO5vtoykvMEfbu9Vh6RaW'
+const SWAGGER_UI_BUNDLE_INTEGRITY = 'sha384-YDALVcy8kj8yltLBVi1vBiBAUqdxvus673gM8XKwiy6aDUJFXivF/KCufekjYbVf'
+
+// 文档页面（Swagger UI），加载 specUrl 指向的 OpenAPI 文档
+export function renderDocsPage(specUrl: string): string {
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Wallpaper API</title>
+  <link rel="stylesheet" href="${SWAGGER_UI_BASE}/swagger-ui.css" integrity="${SWAGGER_UI_CSS_INTEGRITY}" crossorigin="anonymous">
+</head>
+<body>
+  <div id="swagger-ui"></div>
+  <script src="${SWAGGER_UI_BASE}/swagger-ui-bundle.js" integrity="${SWAGGER_UI_BUNDLE_INTEGRITY}" crossorigin="anonymous"></script>
+  <script>
+    window.ui = SwaggerUIBundle({ url: ${JSON.stringify(specUrl)}, dom_id: '#swagger-ui' })
+  </script>
+</body>
+</html>`
+}
@@ -0,0 +1,909 @@
+import { Hono } from 'hono'
+import type { Context } from 'hono'
+import {
+  validateImageUrl,
+  generateImageMetadata,
+  getMimeType,
+  parseImageOptimization,
+  serializeImageOptimization,
+  negotiateImageFormat,
+  parseRangeHeader,
+  isIfRangeSatisfied,
+  buildCacheKey,
+  getProxySources,
+  buildUpstreamUrl,
+  detectImageFormat,
+  isImageContentType,
+  IMAGE_SNIFF_LENGTH,
+  getUpstreamOrigins,
+  getGenericProxySource,
+  isSignatureRequired,
+  getUrlSigningConfig,
+  verifyProxyUrl,
+  getDefaultUpstreamTimeout,
+  getDefaultMaxBodySize,
+  getDefaultCacheTtl,
+  getDefaultCacheStaleTtl,
+  MAX_CACHE_ENTRY_SIZE
+} from './proxy-utils'
+import type { ProxySourceConfig, ImageOptimization, OutputFormat, ImageFormat } from './proxy-utils'
+import { transformImage, getAvailableOutputFormats, getNegotiableOutputFormats } from './image-transform'
+import type { TransformResult } from './image-transform'
+import {
+  UpstreamError,
+  fetchWithFailover,
+  fetchWithRedirects,
+  readBodyWithLimit,
+  limitBodyStream,
+  peekBody,
+  DEFAULT_RETRY_OPTIONS
+} from './upstream'
+import type { UpstreamFetch } from './upstream'
+import { getCircuitStates } from './circuit-breaker'
+import { checkProxyTarget, getAllowedProxyHosts, MAX_PROXY_REDIRECTS } from './ssrf'
+import {
+  collectMetrics,
+  getMetricsStore,
+  summarizeSeries,
+  groupSeries,
+  formatPrometheusMetrics,
+  PROMETHEUS_CONTENT_TYPE
+} from './metrics'
+import type { MetricSeries } from './metrics'
+import { getImageCache } from './image-cache'
+import { getAccessPolicy, resolveAllowedOrigin, isRefererAllowed } from './access-policy'
+import type { AccessPolicy } from './access-policy'
+import type { ImageCache, CacheLookup } from './image-cache'
+import { matchesIfNoneMatch } from './conditional'
+import { validateQuery } from './schema'
+import type { QuerySchema } from './schema'
+import { IMAGE_QUERY, GENERIC_PROXY_QUERY } from './openapi'
+
+// 代理应用选项
+export interface ProxyAppOptions {
+  cache?: ImageCache      // 未指定时使用默认缓存（getImageCache）
+  signingSecret?: string  // URL 签名密钥，未指定时读取 PROXY_SIGNING_SECRET
+}
+
+// 未指定输出格式时沿用原图格式，无法编码的格式回退为 JPEG
+function getFallbackFormat(extension: string | undefined): OutputFormat {
+  if (extension === 'png' || extension === 'webp' || extension === 'avif') return extension
+  return 'jpeg'
+}
+
+/**
+ * 确定最终的图片优化参数
+ * 已请求转换（w/h/q/fit）但未显式指定 f 时按 Accept 协商输出格式；与原图格式相同或原图为 GIF（避免丢失动画）时不做格式转换
+ * 未请求任何转换时原样转发，不因 Accept 对原图做完整的解码与重新编码（此时响应不随 Accept 变化，见 negotiatesFormat）
+ */
+function resolveOptimization(
+  optimization: ImageOptimization | null,
+  accept: string | undefined,
+  extension: string | undefined
+): ImageOptimization | null {
+  if (!optimization || optimization.format) return optimization
+
+  const negotiated = negotiateImageFormat(accept, getNegotiableOutputFormats())
+  if (!negotiated || extension === 'gif' || negotiated === getFallbackFormat(extension)) {
+    return optimization
+  }
+
+  return { ...optimization, format: negotiated }
+}
+
+// 是否按 Accept 协商输出格式（请求了转换但未指定 f），协商时响应需声明 Vary: Accept
+function negotiatesFormat(optimization: ImageOptimization | null): boolean {
+  return !!optimization && !optimization.format
+}
+
+// 转换后的内容与原图不同，ETag 需要带上转换参数
+function buildTransformEtag(etag: string, transform: TransformResult): string {
+  const tag = etag.replace(/^W\//, '').replace(/"/g, '')
+  return `W/"${tag}-${transform.width}x${transform.height}-q${transform.quality}.${transform.format}"`
+}
+
+// 416 响应，Content-Range 标明资源总大小
+function rangeNotSatisfiable(c: Context, contentRange: string | null) {
+  if (contentRange) {
+    c.header('Content-Range', contentRange)
+  }
+  c.header('Accept-Ranges', 'bytes')
+  return c.json({ error: 'Range not satisfiable' }, 416)
+}
+
+/**
+ * 生成图片的表示头（随内容一起缓存）
+ * 包含内容类型、校验器、实际提供内容的上游以及图片元数据/转换参数
+ */
+function buildRepresentationHeaders(
+  originalUrl: string,
+  upstream: { origin: string; contentType: string; format?: ImageFormat | null; etag: string | null; lastModified: string | null },
+  transform: TransformResult | null
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': upstream.contentType,
+    'X-Proxy-Source': 'infinity-wallpaper-proxy',
+    'X-Original-URL': originalUrl,
+    'X-Upstream': upstream.origin
+  }
+
+  if (upstream.lastModified) {
+    headers['Last-Modified'] = upstream.lastModified
+  }
+  if (upstream.etag) {
+    headers['ETag'] = upstream.etag
+  }
+
+  // 生成图片元数据（格式为识别出的原图格式或转换后的输出格式）
+  const metadata = generateImageMetadata(originalUrl, transform?.format || upstream.format || undefined)
+  if (metadata) {
+    headers['X-Image-Format'] = metadata.format
+    headers['X-Image-Filename'] = metadata.filename
+  }
+
+  // 暴露实际生效的转换参数
+  if (transform) {
+    headers['X-Image-Width'] = transform.width.toString()
+    headers['X-Image-Height'] = transform.height.toString()
+    headers['X-Image-Quality'] = transform.quality.toString()
+    headers['X-Image-Fit'] = transform.fit
+  }
+
+  return headers
+}
+
+// 禁止浏览器嗅探内容类型，并禁止代理的内容执行脚本或加载其他资源
+const SECURITY_HEADERS: Record<string, string> = {
+  'X-Content-Type-Options': 'nosniff',
+  'Content-Security-Policy': "default-src 'none'; img-src data:; style-src 'unsafe-inline'; sandbox"
+}
+
+// 上游返回的不是图片（HTML 错误页、SVG 等）
+function rejectNonImage(c: Context, upstream: UpstreamFetch, originalUrl: string) {
+  upstream.clearTimeout()
+  upstream.controller.abort()
+  console.error(`Upstream returned non-image content: ${originalUrl}`)
+  return c.json({
+    error: 'Upstream returned non-image content',
+    originalUrl
+  }, 502)
+}
+
+/**
+ * 按访问策略设置 CORS 响应头
+ * 使用来源白名单时响应随 Origin 变化；来源不被允许时不返回任何 CORS 头
+ */
+function applyCorsHeaders(headers: Headers, policy: AccessPolicy, origin: string | undefined) {
+  const allowOrigin = resolveAllowedOrigin(policy, origin)
+  if (allowOrigin !== '*') {
+    headers.append('Vary', 'Origin')
+  }
+  if (!allowOrigin) return
+
+  headers.set('Access-Control-Allow-Origin', allowOrigin)
+  headers.set('Access-Control-Allow-Methods', 'GET, HEAD, OPTIONS')
+  headers.set('Access-Control-Allow-Headers', 'Content-Type, Range, If-Range')
+}
+
+/**
+ * 生成完整的图片响应头：缓存策略、CORS 与表示头
+ * 仅在按 Accept 协商了输出格式时声明 Vary: Accept，原样转发的响应不因 Accept 拆分 CDN 缓存
+ */
+function buildImageHeaders(
+  source: ProxySourceConfig,
+  representation: Record<string, string>,
+  origin: string | undefined,
+  varyAccept: boolean
+): Headers {
+  const headers = new Headers(representation)
+  headers.set('Cache-Control', source.cacheControl)
+  if (varyAccept) {
+    headers.set('Vary', 'Accept')
+  }
+  applyCorsHeaders(headers, getAccessPolicy(source), origin)
+  headers.set('Accept-Ranges', 'bytes')
+  return headers
+}
+
+// 写入缓存，缓存失败不影响响应
+async function putCache(
+  cache: ImageCache,
+  source: ProxySourceConfig,
+  key: string,
+  body: Uint8Array,
+  representation: Record<string, string>
+) {
+  if (body.byteLength > MAX_CACHE_ENTRY_SIZE) return
+
+  try {
+    await cache.put(key, body, representation, {
+      ttl: source.cacheTtl ?? getDefaultCacheTtl(),
+      staleTtl: source.cacheStaleTtl ?? getDefaultCacheStaleTtl()
+    })
+  } catch (error) {
+    console.error('Image cache put error:', error)
+  }
+}
+
+// 一次图片请求对应的上游：原始图片地址与请求方式
+interface ImageUpstream {
+  originalUrl: string
+  fetch: (init: RequestInit) => Promise<UpstreamFetch>
+}
+
+/**
+ * 按代理源配置请求上游：主源与镜像源轮换，瞬时错误退避重试，熔断中的源会被跳过
+ */
+function fetchFromSource(source: ProxySourceConfig, path: string, init: RequestInit): Promise<UpstreamFetch> {
+  const targets = getUpstreamOrigins(source).map(origin => ({
+    origin,
+    url: buildUpstreamUrl(source, path, origin)
+  }))
+
+  return fetchWithFailover(targets, init, {
+    ...DEFAULT_RETRY_OPTIONS,
+    timeout: source.timeout ?? getDefaultUpstreamTimeout(),
+    retries: source.retries ?? DEFAULT_RETRY_OPTIONS.retries
+  })
+}
+
+// 正在后台刷新的缓存键，避免重复刷新
+const refreshingKeys = new Set<string>()
+
+/**
+ * 后台重新获取过期的缓存条目
+ */
+async function refreshCache(
+  cache: ImageCache,
+  source: ProxySourceConfig,
+  key: string,
+  target: ImageUpstream,
+  optimization: ImageOptimization | null
+) {
+  if (refreshingKeys.has(key)) return
+  refreshingKeys.add(key)
+
+  try {
+    const { originalUrl } = target
+    const upstream = await target.fetch({ headers: { ...source.headers } })
+    if (!upstream.response.ok) {
+      upstream.clearTimeout()
+      return
+    }
+
+    const { response } = upstream
+    let body = await readBodyWithLimit(upstream, source.maxBodySize ?? getDefaultMaxBodySize())
+    const format = detectImageFormat(body)
+    if (!isImageContentType(response.headers.get('content-type')) || !format) {
+      console.error(`Upstream returned non-image content: ${originalUrl}`)
+      return
+    }
+
+    let contentType = getMimeType(format)
+    let etag = response.headers.get('etag')
+    let transform: TransformResult | null = null
+
+    if (optimization) {
+      transform = await transformImage(body, optimization, getFallbackFormat(format))
+      body = transform.data
+      contentType = getMimeType(transform.format)
+      etag = etag ? buildTransformEtag(etag, transform) : null
+    }
+
+    const representation = buildRepresentationHeaders(originalUrl, {
+      origin: upstream.origin || new URL(originalUrl).host,
+      contentType,
+      format,
+      etag,
+      lastModified: response.headers.get('last-modified')
+    }, transform)
+    await putCache(cache, source, key, body, representation)
+  } catch (error) {
+    console.error('Image cache refresh error:', error)
+  } finally {
+    refreshingKeys.delete(key)
+  }
+}
+
+// 在请求结束后继续执行后台任务（运行时支持 waitUntil 时使用）
+function runInBackground(c: Context, task: Promise<void>) {
+  try {
+    c.executionCtx.waitUntil(task)
+  } catch {
+    // 当前运行时未提供 ExecutionContext
+  }
+}
+
+/**
+ * 使用缓存条目响应，支持条件请求、HEAD 与 Range
+ */
+function serveFromCache(c: Context, source: ProxySourceConfig, lookup: CacheLookup, startTime: number, varyAccept: boolean) {
+  const { entry, status: cacheStatus } = lookup
+  const etag = entry.headers['ETag']
+
+  // 304 与完整响应使用相同的缓存策略、Vary 与 CORS 头
+  if (matchesIfNoneMatch(c.req.header('if-none-match'), etag)) {
+    return new Response(null, {
+      status: 304,
+      headers: buildImageHeaders(source, {
+        'ETag': etag,
+        'X-Proxy-Source': 'infinity-wallpaper-proxy',
+        'X-Cache-Status': cacheStatus
+      }, c.req.header('origin'), varyAccept)
+    })
+  }
+
+  let body = entry.body
+  let status: 200 | 206 = 200
+  const headers = buildImageHeaders(source, entry.headers, c.req.header('origin'), varyAccept)
+
+  const rangeHeader = c.req.header('range')
+  if (rangeHeader && isIfRangeSatisfied(c.req.header('if-range'), etag || null, entry.headers['Last-Modified'] || null)) {
+    const range = parseRangeHeader(rangeHeader, body.byteLength)
+
+    if (range === 'unsatisfiable') {
+      return rangeNotSatisfiable(c, `bytes */${body.byteLength}`)
+    }
+
+    if (range) {
+      headers.set('Content-Range', `bytes ${range.start}-${range.end}/${body.byteLength}`)
+      body = body.subarray(range.start, range.end + 1)
+      status = 206
+    }
+  }
+
+  const elapsed = Date.now() - startTime
+  headers.set('Content-Length', body.byteLength.toString())
+  headers.set('X-Response-Time', `ttfb=${elapsed}ms, total=${elapsed}ms`)
+  headers.set('X-Cache-Status', cacheStatus)
+
+  return new Response(c.req.method === 'HEAD' ? null : body as BodyInit, {
+    status,
+    headers
+  })
+}
+
+// 图片代理路由的指标标签
+const IMAGE_ROUTE = '/*'
+
+// 指标中的路由标签：统计/健康/指标端点按路径区分，其余均为图片请求
+function getRouteLabel(source: ProxySourceConfig, path: string): string {
+  const route = path.slice(source.proxyPath.length)
+  return route === '/stats' || route === '/health' || route === '/metrics' ? route : IMAGE_ROUTE
+}
+
+function formatRate(count: number, total: number): string {
+  return total > 0 ? ((count / total) * 100).toFixed(2) + '%' : '0%'
+}
+
+// 获取单个代理源的指标
+async function getSourceSeries(source: ProxySourceConfig): Promise<MetricSeries[]> {
+  const series = await getMetricsStore().snapshot()
+  return series.filter(item => item.labels.source === source.name)
+}
+
+// 健康检查中展示的用法与示例，以及需要报告熔断状态的上游源
+interface ServiceInfo {
+  usage: string
+  example: string
+  getOrigins: () => string[]
+}
+
+/**
+ * 创建代理源的应用：指标、安全响应头、统计/指标/健康检查端点与 CORS 预检
+ * 图片路由由调用方在返回的应用上注册
+ */
+function createServiceApp(source: ProxySourceConfig, options: ProxyAppOptions, info: ServiceInfo) {
+  const app = new Hono().basePath(source.proxyPath)
+
+  // 按代理源、路由、状态码分类与缓存结果采集指标
+  app.use('*', collectMetrics(source.name, (c: Context) => getRouteLabel(source, c.req.path)))
+
+  // 所有响应均附加安全响应头
+  app.use('*', async (c: Context, next) => {
+    await next()
+    for (const [name, value] of Object.entries(SECURITY_HEADERS)) {
+      c.res.headers.set(name, value)
+    }
+  })
+
+  // 代理统计信息端点（仅统计图片请求） - 必须在通配符路由之前
+  app.get('/stats', async (c: Context) => {
+    const series = await getSourceSeries(source)
+    const images = series.filter(item => item.labels.route === IMAGE_ROUTE)
+    const summary = summarizeSeries(images)
+    const successfulRequests = summarizeSeries(images.filter(item => item.labels.status === '2xx' || item.labels.status === '3xx')).requests
+    const cacheHits = summarizeSeries(images.filter(item => item.labels.cache === 'hit' || item.labels.cache === 'stale')).requests
+
+    return c.json({
+      service: `${source.displayName} Proxy Statistics`,
+      source: source.name,
+      stats: {
+        totalRequests: summary.requests,
+        successfulRequests,
+        failedRequests: summary.requests - successfulRequests,
+        cacheHits,
+        bytesServed: summary.bytes,
+        averageResponseTime: summary.averageResponseTime,
+        latency: summary.latency,
+        lastRequestTime: summary.lastRequestTime
+      },
+      successRate: formatRate(successfulRequests, summary.requests),
+      cacheHitRate: formatRate(cacheHits, summary.requests),
+      byStatus: groupSeries(images, 'status'),
+      byCache: groupSeries(images, 'cache'),
+      byRoute: groupSeries(series, 'route'),
+      cache: (options.cache || getImageCache()).usage(),
+      upstreams: getCircuitStates(info.getOrigins())
+    })
+  })
+
+  // Prometheus 指标端点
+  app.get('/metrics', async (c: Context) => {
+    return c.body(formatPrometheusMetrics(await getSourceSeries(source)), 200, {
+      'Content-Type': PROMETHEUS_CONTENT_TYPE
+    })
+  })
+
+  // 健康检查端点，报告各上游源的熔断状态
+  app.get('/health', (c: Context) => {
+    const upstreams = getCircuitStates(info.getOrigins())
+    const available = upstreams.filter(upstream => upstream.state !== 'open').length
+
+    return c.json({
+      service: `${source.displayName} Proxy Service`,
+      status: available === upstreams.length ? 'healthy' : available > 0 ? 'degraded' : 'unhealthy',
+      upstreams,
+      usage: info.usage,
+      example: info.example,
+      timestamp: new Date().toISOString()
+    })
+  })
+
+  // 处理 OPTIONS 请求 (CORS 预检)
+  app.options('/*', (c: Context) => {
+    const headers = new Headers()
+    applyCorsHeaders(headers, getAccessPolicy(source), c.req.header('origin'))
+    if (headers.has('Access-Control-Allow-Origin')) {
+      headers.set('Access-Control-Max-Age', '86400')
+    }
+
+    return new Response(null, {
+      status: 200,
+      headers
+    })
+  })
+
+  return app
+}
+
+/**
+ * 创建图片请求的处理函数：防盗链、参数与签名校验、优化参数、缓存、上游请求与内容校验
+ * @param query 查询参数定义，不合法时返回 400 与逐字段的错误
+ * @param resolve 由请求得到上游地址与请求方式，参数不合法时直接返回错误响应
+ */
+function createImageHandler(
+  source: ProxySourceConfig,
+  options: ProxyAppOptions,
+  query: QuerySchema,
+  resolve: (c: Context) => ImageUpstream | Response
+) {
+  return async (c: Context) => {
+    const startTime = Date.now()
+
+    try {
+      // 防盗链：Referer 不在白名单时返回 403 或重定向到占位图片
+      const policy = getAccessPolicy(source)
+      if (!isRefererAllowed(policy, c.req.header('referer'))) {
+        if (policy.placeholderUrl) {
+          c.header('Cache-Control', 'no-store')
+          return c.redirect(policy.placeholderUrl, 302)
+        }
+        return c.json({
+          error: 'Forbidden',
+          reason: 'Referer not allowed'
+        }, 403)
+      }
+
+      // 校验查询参数
+      const errors = validateQuery(query, c.req.query())
+      if (errors.length > 0) {
+        return c.json({
+          error: 'Invalid query parameters',
+          errors
+        }, 400)
+      }
+
+      // 校验 URL 签名（仅对强制签名的代理源）
+      if (isSignatureRequired(source)) {
+        const secret = options.signingSecret || getUrlSigningConfig()?.secret
+        if (!secret) {
+          console.error(`URL signing is required for ${source.name} but no secret is configured`)
+          return c.json({ error: 'URL signing is not configured' }, 500)
+        }
+
+        const verification = await verifyProxyUrl(c.req.url, secret)
+        if (!verification.valid) {
+          return c.json({
+            error: 'Forbidden',
+            reason: verification.reason
+          }, 403)
+        }
+      }
+
+      // 解析上游地址
+      const target = resolve(c)
+      if (target instanceof Response) {
+        return target
+      }
+      const { originalUrl } = target
+
+      // 验证URL格式
+      const validation = validateImageUrl(originalUrl)
+      if (!validation.valid) {
+        return c.json({
+          error: 'Invalid image URL',
+          reason: validation.reason
+        }, 400)
+      }
+
+      // 解析图片优化参数
+      const { optimization, error: optimizationError, field } = parseImageOptimization(c.req.query())
+      if (optimizationError) {
+        return c.json({
+          error: 'Invalid image optimization',
+          reason: optimizationError,
+          errors: [{ field: field || 'query', message: optimizationError }]
+        }, 400)
+      }
+
+      if (optimization?.format && !getAvailableOutputFormats().includes(optimization.format)) {
+        return c.json({
+          error: 'Invalid image optimization',
+          reason: 'Unsupported format'
+        }, 400)
+      }
+
+      // 按 Accept 协商输出格式
+      const varyAccept = negotiatesFormat(optimization)
+      const effectiveOptimization = resolveOptimization(
+        optimization,
+        c.req.header('accept'),
+        generateImageMetadata(originalUrl)?.extension
+      )
+
+      // 查询缓存，过期条目照常返回并在后台刷新
+      const cache = options.cache || getImageCache()
+      const cacheKey = buildCacheKey(originalUrl, serializeImageOptimization(effectiveOptimization))
+      const cached = await cache.get(cacheKey)
+      if (cached) {
+        if (cached.status === 'stale') {
+          runInBackground(c, refreshCache(cache, source, cacheKey, target, effectiveOptimization))
+        }
+        return serveFromCache(c, source, cached, startTime, varyAccept)
+      }
+
+      // 检查条件请求头
+      const ifNoneMatch: string | undefined = c.req.header('if-none-match')
+      const ifModifiedSince: string | undefined = c.req.header('if-modified-since')
+      const rangeHeader: string | undefined = c.req.header('range')
+      const ifRange: string | undefined = c.req.header('if-range')
+
+      // HEAD 请求且无需转换时只向上游请求响应头
+      const headOnly = c.req.method === 'HEAD' && !effectiveOptimization
+
+      // 获取原始图片
+      const fetchHeaders: Record<string, string> = { ...source.headers }
+
+      // 传递条件请求头
+      if (ifNoneMatch) fetchHeaders['If-None-Match'] = ifNoneMatch
+      if (ifModifiedSince) fetchHeaders['If-Modified-Since'] = ifModifiedSince
+
+      // 未转换时由上游直接处理范围请求，转换后的内容在本地截取
+      if (rangeHeader && !effectiveOptimization) {
+        fetchHeaders['Range'] = rangeHeader
+        if (ifRange) fetchHeaders['If-Range'] = ifRange
+      }
+
+      const upstream = await target.fetch({
+        method: headOnly ? 'HEAD' : 'GET',
+        headers: fetchHeaders
+      })
+      const response: Response = upstream.response
+      const upstreamOrigin = upstream.origin || new URL(originalUrl).host
+      const maxBodySize = source.maxBodySize ?? getDefaultMaxBodySize()
+
+      // 处理304 Not Modified
+      if (response.status === 304) {
+        upstream.clearTimeout()
+        const etag = response.headers.get('etag')
+        return new Response(null, {
+          status: 304,
+          headers: buildImageHeaders(source, {
+            ...(etag ? { 'ETag': etag } : {}),
+            'X-Proxy-Source': 'infinity-wallpaper-proxy',
+            'X-Upstream': upstreamOrigin,
+            'X-Cache-Status': 'not-modified'
+          }, c.req.header('origin'), varyAccept)
+        })
+      }
+
+      // 处理416 Range Not Satisfiable
+      if (response.status === 416) {
+        upstream.clearTimeout()
+        return rangeNotSatisfiable(c, response.headers.get('content-range'))
+      }
+
+      if (!response.ok) {
+        upstream.clearTimeout()
+        console.error(`Failed to fetch image from ${upstreamOrigin}: ${response.status} ${response.statusText}`)
+        c.header('X-Upstream', upstreamOrigin)
+
+        // 重试后上游仍返回 5xx
+        if (response.status >= 500) {
+          return c.json({
+            error: 'Upstream unavailable',
+            status: response.status,
+            originalUrl
+          }, 502)
+        }
+
+        // 确保状态码是有效的HTTP状态码
+        const statusCode = response.status >= 400 && response.status < 600 ? response.status : 404
+
+        return c.json({
+          error: 'Image not found',
+          status: response.status,
+          originalUrl
+        }, statusCode as any)
+      }
+
+      // 收到上游响应头的时间
+      const ttfb = Date.now() - startTime
+
+      // 上游声明的类型必须可能是图片（HTML 错误页、SVG 等直接拒绝）
+      const declaredType = response.headers.get('content-type')
+      if (!isImageContentType(declaredType)) {
+        return rejectNonImage(c, upstream, originalUrl)
+      }
+
+      // 获取图片类型，完整响应体会再按文件头识别
+      let contentType: string = declaredType || generateImageMetadata(originalUrl)?.mimeType || 'image/jpeg'
+      let format: ImageFormat | null = null
+      const lastModified: string | null = response.headers.get('last-modified')
+      let etag: string | null = response.headers.get('etag')
+
+      // 上游已按 Range 返回部分内容
+      let status: 200 | 206 = response.status === 206 ? 206 : 200
+      let contentRange: string | null = status === 206 ? response.headers.get('content-range') : null
+
+      // 上游忽略了 Range 时需要在本地截取
+      const needsLocalRange = status === 200 && !!rangeHeader && isIfRangeSatisfied(ifRange, etag, lastModified)
+
+      let body: BodyInit | null = null
+      let contentLength: string | null = null
+      let transform: TransformResult | null = null
+      const streaming = !headOnly && !effectiveOptimization && !needsLocalRange
+
+      // 未转换内容的表示头
+      let representation = buildRepresentationHeaders(originalUrl, { origin: upstreamOrigin, contentType, etag, lastModified }, null)
+
+      if (headOnly) {
+        upstream.clearTimeout()
+        contentLength = response.headers.get('content-length')
+      } else if (streaming) {
+        // 按文件头识别格式（上游返回的部分内容无法识别，只校验声明的类型）
+        if (status === 200) {
+          format = detectImageFormat(await peekBody(upstream, IMAGE_SNIFF_LENGTH))
+          if (!format) {
+            return rejectNonImage(c, upstream, originalUrl)
+          }
+          contentType = getMimeType(format)
+          representation = buildRepresentationHeaders(originalUrl, { origin: upstreamOrigin, contentType, format, etag, lastModified }, null)
+        }
+
+        // 无需转换时直接流式转发上游响应体，完整响应同时写入缓存
+        // 总超时在此清除（慢速客户端不应触发），上游停止发送数据时由 idleTimeout 中止
+        upstream.clearTimeout()
+        const cacheable = status === 200
+        body = limitBodyStream(upstream, maxBodySize, {
+          captureLimit: cacheable ? MAX_CACHE_ENTRY_SIZE : undefined,
+          idleTimeout: source.timeout ?? getDefaultUpstreamTimeout(),
+          onComplete: (_bytes, captured) => {
+            if (captured) {
+              runInBackground(c, putCache(cache, source, cacheKey, captured, representation))
+            }
+          }
+        })
+        // fetch 会自动解压，压缩后的长度与实际转发的内容不一致
+        contentLength = response.headers.get('content-encoding') ? null : response.headers.get('content-length')
+      } else {
+        let bytes: Uint8Array = await readBodyWithLimit(upstream, maxBodySize)
+
+        // 按文件头识别格式
+        if (status === 200) {
+          format = detectImageFormat(bytes)
+          if (!format) {
+            return rejectNonImage(c, upstream, originalUrl)
+          }
+          contentType = getMimeType(format)
+          representation = buildRepresentationHeaders(originalUrl, { origin: upstreamOrigin, contentType, format, etag, lastModified }, null)
+        }
+
+        // 执行图片转换
+        if (effectiveOptimization) {
+          try {
+            transform = await transformImage(
+              bytes,
+              effectiveOptimization,
+              getFallbackFormat(format || generateImageMetadata(originalUrl)?.extension)
+            )
+          } catch (error) {
+            console.error('Image transform error:', error)
+            return c.json({
+              error: 'Failed to transform image',
+              originalUrl
+            }, 502)
+          }
+
+          bytes = transform.data
+          contentType = getMimeType(transform.format)
+          etag = etag ? buildTransformEtag(etag, transform) : null
+          representation = buildRepresentationHeaders(originalUrl, { origin: upstreamOrigin, contentType, etag, lastModified }, transform)
+        }
+
+        // 缓存完整内容（上游返回的部分内容不缓存）
+        if (status === 200) {
+          await putCache(cache, source, cacheKey, bytes, representation)
+        }
+
+        // 上游未处理 Range（或内容经过转换）时在本地截取
+        if (status === 200 && rangeHeader && isIfRangeSatisfied(ifRange, etag, lastModified)) {
+          const range = parseRangeHeader(rangeHeader, bytes.byteLength)
+
+          if (range === 'unsatisfiable') {
+            return rangeNotSatisfiable(c, `bytes */${bytes.byteLength}`)
+          }
+
+          if (range) {
+            contentRange = `bytes ${range.start}-${range.end}/${bytes.byteLength}`
+            bytes = bytes.subarray(range.start, range.end + 1)
+            status = 206
+          }
+        }
+
+        body = bytes as BodyInit
+        contentLength = bytes.byteLength.toString()
+      }
+
+      // 设置响应头
+      const headers = buildImageHeaders(source, representation, c.req.header('origin'), varyAccept)
+
+      if (contentLength) {
+        headers.set('Content-Length', contentLength)
+      }
+      if (contentRange) {
+        headers.set('Content-Range', contentRange)
+      }
+
+      // 流式响应发出时总耗时未知，仅报告首字节时间
+      headers.set('X-Response-Time', streaming
+        ? `ttfb=${ttfb}ms`
+        : `ttfb=${ttfb}ms, total=${Date.now() - startTime}ms`)
+      headers.set('X-Cache-Status', 'miss')
+
+      return new Response(body, {
+        status,
+        headers
+      })
+
+    } catch (error) {
+      console.error('Proxy error:', error)
+
+      // 上游超时（504）或响应过大（502）
+      if (error instanceof UpstreamError) {
+        return c.json({
+          error: error.message
+        }, error.status)
+      }
+
+      return c.json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }, 500)
+    }
+  }
+}
+
+/**
+ * 为单个代理源创建图片代理路由
+ * 路由前缀、上游地址、请求头与缓存策略均来自代理源配置
+ */
+export function createProxyApp(source: ProxySourceConfig, options: ProxyAppOptions = {}) {
+  const app = createServiceApp(source, options, {
+    usage: `GET ${source.proxyPath}/{category}/{filename}`,
+    example: `GET ${source.proxyPath}/${source.example}`,
+    getOrigins: () => getUpstreamOrigins(source)
+  })
+
+  // 图片代理服务 - 通配符路由必须放在最后
+  app.get('/*', createImageHandler(source, options, IMAGE_QUERY, (c: Context) => {
+    // 获取路径参数
+    let path: string = c.req.path.replace(`${source.proxyPath}/`, '')
+
+    // 处理路径开头的斜杠
+    if (path.startsWith('/')) {
+      path = path.substring(1)
+    }
+
+    if (!path || path === '') {
+      return c.json({ error: 'Path is required' }, 400)
+    }
+
+    return {
+      originalUrl: buildUpstreamUrl(source, path),
+      fetch: (init: RequestInit) => fetchFromSource(source, path, init)
+    }
+  }))
+
+  return app
+}
+
+/**
+ * 创建通用图片代理路由：GET /api/proxy?url=<编码后的图片地址>
+ * 目标地址需通过主机白名单与内网地址检查，重定向最多跟随 MAX_PROXY_REDIRECTS 次且每一跳重新检查
+ */
+export function createGenericProxyApp(options: ProxyAppOptions = {}) {
+  const source = getGenericProxySource()
+  const app = createServiceApp(source, options, {
+    usage: `GET ${source.proxyPath}?url={encodedImageUrl}`,
+    example: `GET ${source.proxyPath}${source.example}`,
+    getOrigins: () => []
+  })
+
+  app.get('/', createImageHandler(source, options, GENERIC_PROXY_QUERY, (c: Context) => {
+    const url = c.req.query('url')
+    if (!url) {
+      return c.json({ error: 'url is required' }, 400)
+    }
+
+    let target: URL
+    try {
+      target = new URL(url)
+    } catch {
+      return c.json({ error: 'Invalid image URL', reason: 'Invalid URL format' }, 400)
+    }
+
+    const reason = checkProxyTarget(target)
+    if (reason) {
+      return c.json({ error: 'Forbidden', reason }, 403)
+    }
+
+    return {
+      originalUrl: target.toString(),
+      fetch: (init: RequestInit) => fetchWithRedirects(target.toString(), init, {
+        timeout: source.timeout ?? getDefaultUpstreamTimeout(),
+        maxRedirects: MAX_PROXY_REDIRECTS,
+        checkUrl: (next: URL) => checkProxyTarget(next, getAllowedProxyHosts())
+      })
+    }
+  }))
+
+  return app
+}
+
+/**
+ * 将所有已注册的代理源挂载到同一个应用
+ */
+export function createProxyRouter(
+  sources: ProxySourceConfig[] = getProxySources(),
+  options: ProxyAppOptions = {}
+) {
+  const app = new Hono()
+
+  for (const source of sources) {
+    app.route('/', createProxyApp(source, options))
+  }
+
+  return app
+}
@@ -1,4 +1,8 @@
 // 图片代理工具函数
+import { hmacSha256, toBase64Url, timingSafeEqual } from './hmac';
+import type { AccessPolicy } from './access-policy';
+import { getConfig, PLACEHOLDER_BASE_URL } from './config';
+import type { AppConfig } from './config';
 
 export interface ProxyConfig {
   baseUrl: string;
@@ -6,71 +10,445 @@ export interface ProxyConfig {
   proxyPath: string;
 }
 
-export const DEFAULT_PROXY_CONFIG: ProxyConfig = {
-  baseUrl: 'https://your-domain.vercel.app',
-  originalDomain: 'infinitypro-img.infinitynewtab.com',
-  proxyPath: '/api/wallpaper'
+// 默认的代理URL配置：根地址与上游域名按当前配置生成
+export function getDefaultProxyConfig(): ProxyConfig {
+  const config = getConfig();
+  return {
+    baseUrl: config.publicBaseUrl || PLACEHOLDER_BASE_URL,
+    originalDomain: config.upstream.infinityDomain,
+    proxyPath: '/api/wallpaper'
+  };
+}
+
+// 图片代理源配置：在 ProxyConfig 基础上补充上游路径、请求头与缓存策略
+export interface ProxySourceConfig extends ProxyConfig {
+  name: string;                     // 来源标识
+  displayName: string;              // 展示名称（用于 health/stats）
+  upstreamPath: string;             // 上游路径模板，{path} 为请求路径占位符
+  headers: Record<string, string>;  // 请求上游时携带的请求头
+  cacheControl: string;             // 下游响应的 Cache-Control
+  example: string;                  // 示例图片路径（相对于 proxyPath）
+  timeout?: number;                 // 上游超时时间（毫秒）
+  maxBodySize?: number;             // 上游响应体大小上限（字节）
+  cacheTtl?: number;                // 代理缓存有效期（秒）
+  cacheStaleTtl?: number;           // 代理缓存过期后仍可返回的时长（秒）
+  requireSignature?: boolean;       // 是否强制校验 URL 签名（未设置时由 PROXY_SIGNED_SOURCES 决定）
+  accessPolicy?: AccessPolicy;      // CORS 来源与防盗链策略（未设置时读取环境变量）
+  mirrors?: string[];               // 镜像源域名，与 originalDomain 提供相同的路径
+  retries?: number;                 // 瞬时错误的最大重试次数
+}
+
+// 请求上游时的默认请求头
+export const DEFAULT_UPSTREAM_HEADERS: Record<string, string> = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+  'Accept': 'image/webp,image/apng,image/*,*/*;q=0.8',
+  'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8'
 };
 
-// 将原始图片URL转换为代理URL
-export function convertToProxyUrl(originalUrl: string, config: ProxyConfig = DEFAULT_PROXY_CONFIG): string | null {
+// 默认缓存策略：缓存1年
+export const DEFAULT_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+// 默认上游超时（毫秒）：PROXY_UPSTREAM_TIMEOUT，默认15秒
+export function getDefaultUpstreamTimeout(): number {
+  return getConfig().upstream.timeout * 1000;
+}
+
+// 默认上游响应体上限：PROXY_MAX_BODY_SIZE，默认30MB
+export function getDefaultMaxBodySize(): number {
+  return getConfig().upstream.maxBodySize;
+}
+
+// 签名URL默认有效期（秒）：PROXY_SIGNING_TTL，默认1天
+export function getDefaultSignedUrlTtl(): number {
+  return getConfig().signing.ttl;
+}
+
+// 默认代理缓存：PROXY_CACHE_TTL 有效期（默认1天），PROXY_CACHE_STALE_TTL 过期后仍可返回并在后台刷新的时长（默认7天）
+export function getDefaultCacheTtl(): number {
+  return getConfig().proxyCache.ttl;
+}
+
+export function getDefaultCacheStaleTtl(): number {
+  return getConfig().proxyCache.staleTtl;
+}
+
+// 单个缓存条目的大小上限：10MB
+export const MAX_CACHE_ENTRY_SIZE = 10 * 1024 * 1024;
+
+/**
+ * 内置代理源，上游域名等由配置生成
+ * 新增图床只需在此增加一条配置（或调用 registerProxySource 注册）
+ */
+function buildBuiltinProxySources(config: AppConfig): ProxySourceConfig[] {
+  const baseUrl = config.publicBaseUrl || PLACEHOLDER_BASE_URL;
+
+  // infinitynewtab 图床的通用配置
+  const infinity = {
+    baseUrl,
+    originalDomain: config.upstream.infinityDomain,
+    headers: {
+      ...DEFAULT_UPSTREAM_HEADERS,
+      'Referer': 'https://infinitynewtab.com/'
+    },
+    cacheControl: DEFAULT_CACHE_CONTROL
+  };
+
+  return [
+    {
+      ...infinity,
+      name: 'wallpaper',
+      displayName: 'Wallpaper',
+      proxyPath: '/api/wallpaper',
+      upstreamPath: '/wallpaper/{path}',
+      example: 'ocean/21213.jpg'
+    },
+    {
+      ...infinity,
+      name: 'bing',
+      displayName: 'Bing',
+      proxyPath: '/api/bing',
+      upstreamPath: '/bing/{path}',
+      example: 'bing/20170810.jpg'
+    },
+    {
+      ...infinity,
+      name: 'findaphoto',
+      displayName: 'Findaphoto',
+      proxyPath: '/api/findaphoto',
+      upstreamPath: '/findaphoto/{path}',
+      example: 'bigLink/17021.jpg'
+    },
+    // Bing 图片服务器（/th?id=<图片名>），用于代理每日壁纸的各分辨率版本
+    {
+      baseUrl,
+      originalDomain: config.upstream.bingImageDomain,
+      mirrors: config.upstream.bingImageMirrors,
+      name: 'bing-origin',
+      displayName: 'Bing Origin',
+      proxyPath: '/api/bing-origin',
+      upstreamPath: '/th?id={path}',
+      headers: DEFAULT_UPSTREAM_HEADERS,
+      cacheControl: DEFAULT_CACHE_CONTROL,
+      example: 'OHR.BubbleNebula_EN-US3734004017_1920x1080.jpg'
+    }
+  ];
+}
+
+// 通过 registerProxySource 注册的代理源，同名时覆盖内置代理源
+const proxySources = new Map<string, ProxySourceConfig>();
+
+// 合并后的代理源，按配置对象缓存：配置被替换或注册新代理源时重新生成
+let registry: { config: AppConfig; sources: Map<string, ProxySourceConfig>; list: ProxySourceConfig[] } | null = null;
+
+function getRegistry() {
+  const config = getConfig();
+  if (registry?.config !== config) {
+    const sources = new Map(buildBuiltinProxySources(config).map(source => [source.name, source]));
+    for (const [name, source] of proxySources) {
+      sources.set(name, source);
+    }
+    registry = { config, sources, list: [...sources.values()] };
+  }
+  return registry;
+}
+
+// 注册代理源（同名覆盖）
+export function registerProxySource(source: ProxySourceConfig): ProxySourceConfig {
+  proxySources.set(source.name, source);
+  registry = null;
+  return source;
+}
+
+// 按名称获取代理源
+export function getProxySource(name: string): ProxySourceConfig | undefined {
+  return getRegistry().sources.get(name);
+}
+
+// 获取全部代理源（内置代理源在前，保持注册顺序）
+export function getProxySources(): ProxySourceConfig[] {
+  return getRegistry().list;
+}
+
+// 通用图片代理（/api/proxy?url=）的路径
+export const GENERIC_PROXY_PATH = '/api/proxy';
+
+// 通用图片代理的配置，不在注册表中，上游地址由请求参数给出
+export function getGenericProxySource(): ProxySourceConfig {
+  return {
+    baseUrl: getDefaultProxyConfig().baseUrl,
+    originalDomain: '',
+    name: 'proxy',
+    displayName: 'Generic Image',
+    proxyPath: GENERIC_PROXY_PATH,
+    upstreamPath: '{path}',
+    headers: DEFAULT_UPSTREAM_HEADERS,
+    cacheControl: DEFAULT_CACHE_CONTROL,
+    example: `?url=${encodeURIComponent(`https://${getConfig().upstream.infinityDomain}/wallpaper/ocean/21213.jpg`)}`
+  };
+}
+
+// 解码请求路径中的百分号编码，编码不合法时原样返回
+function decodePath(path: string): string {
   try {
-    const url = new URL(originalUrl);
-    
-    // 检查域名
-    if (url.hostname !== config.originalDomain) {
-      return null;
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * 根据代理源配置构建上游图片URL，默认使用主源
+ * 占位符位于查询参数中（/th?id={path}）时对路径整体编码，避免 &、#、? 注入额外的上游参数
+ */
+export function buildUpstreamUrl(source: ProxySourceConfig, path: string, origin: string = source.originalDomain): string {
+  const { upstreamPath } = source;
+  const queryStart = upstreamPath.indexOf('?');
+  const inQuery = queryStart >= 0 && upstreamPath.indexOf('{path}') > queryStart;
+  const value = inQuery ? encodeURIComponent(decodePath(path)) : path;
+
+  return `https://${origin}${upstreamPath.replace('{path}', value)}`;
+}
+
+// 代理源的全部上游源：主源在前，镜像源依次在后
+export function getUpstreamOrigins(source: ProxySourceConfig): string[] {
+  return [source.originalDomain, ...(source.mirrors || [])];
+}
+
+// URL 签名选项
+export interface UrlSigningOptions {
+  secret: string;
+  expiresIn?: number;   // 有效期（秒），默认 PROXY_SIGNING_TTL
+}
+
+// 签名相关的查询参数
+export const SIGNATURE_PARAM = 'sig';
+export const EXPIRES_PARAM = 'exp';
+
+/**
+ * 读取签名配置，未设置 PROXY_SIGNING_SECRET 时返回 null
+ * PROXY_SIGNING_TTL 为签名有效期（秒）
+ */
+export function getUrlSigningConfig(): UrlSigningOptions | null {
+  const { secret, ttl } = getConfig().signing;
+  if (!secret) return null;
+
+  return { secret, expiresIn: ttl };
+}
+
+// 代理源是否强制校验签名：PROXY_SIGNED_SOURCES 为逗号分隔的来源名称，* 表示全部
+export function isSignatureRequired(source: ProxySourceConfig): boolean {
+  if (source.requireSignature !== undefined) return source.requireSignature;
+
+  const sources = getConfig().signing.sources;
+  return sources.includes('*') || sources.includes(source.name);
+}
+
+// 签名内容：路径 + 按参数名排序的查询参数（不含签名本身）
+function buildSignaturePayload(url: URL): string {
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => key !== SIGNATURE_PARAM)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return `${url.pathname}?${new URLSearchParams(params).toString()}`;
+}
+
+/**
+ * 为代理URL追加过期时间与 HMAC-SHA256 签名
+ * 签名覆盖路径与全部查询参数（含转换参数），需在设置完查询参数后调用
+ */
+export async function signProxyUrl(proxyUrl: string, signing: UrlSigningOptions, now: number = Date.now()): Promise<string> {
+  const url = new URL(proxyUrl);
+  const expiresIn = signing.expiresIn ?? getDefaultSignedUrlTtl();
+
+  url.searchParams.delete(SIGNATURE_PARAM);
+  url.searchParams.set(EXPIRES_PARAM, (Math.floor(now / 1000) + expiresIn).toString());
+  url.searchParams.set(SIGNATURE_PARAM, toBase64Url(await hmacSha256(signing.secret, buildSignaturePayload(url))));
+
+  return url.toString();
+}
+
+// 校验代理URL的签名与有效期
+export async function verifyProxyUrl(
+  proxyUrl: string | URL,
+  secret: string,
+  now: number = Date.now()
+): Promise<{ valid: boolean; reason?: string }> {
+  let url: URL;
+  try {
+    url = new URL(proxyUrl.toString());
+  } catch {
+    return { valid: false, reason: 'Invalid URL' };
+  }
+
+  const signature = url.searchParams.get(SIGNATURE_PARAM);
+  const expires = url.searchParams.get(EXPIRES_PARAM);
+  if (!signature || !expires) {
+    return { valid: false, reason: 'Missing signature' };
+  }
+
+  const expected = toBase64Url(await hmacSha256(secret, buildSignaturePayload(url)));
+  if (!timingSafeEqual(signature, expected)) {
+    return { valid: false, reason: 'Invalid signature' };
+  }
+
+  const expiresAt = parseInt(expires, 10);
+  if (isNaN(expiresAt) || expiresAt * 1000 <= now) {
+    return { valid: false, reason: 'Signature expired' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * 对外提供服务的根地址：优先使用配置的 PROXY_PUBLIC_BASE_URL，其次为当前请求的来源
+ * 均不可用时返回默认代理配置的 baseUrl
+ */
+export function getPublicBaseUrl(
+  requestUrl?: string,
+  configured: string | null = getConfig().publicBaseUrl
+): string {
+  if (configured) return configured;
+
+  if (requestUrl) {
+    try {
+      return new URL(requestUrl).origin;
+    } catch {
+      // 忽略无法解析的请求地址
     }
+  }
+  return getDefaultProxyConfig().baseUrl;
+}
+
+/**
+ * 从上游图片地址中提取代理源的 {path}，地址不属于该代理源时返回 null
+ * upstreamPath 的占位符可以在路径中（/wallpaper/{path}），也可以是查询参数值（/th?id={path}）
+ */
+function extractSourcePath(source: ProxySourceConfig, url: URL): string | null {
+  if (!getUpstreamOrigins(source).includes(url.hostname)) return null;
+
+  const [templatePath, templateQuery] = source.upstreamPath.split('?');
+  if (templateQuery) {
+    const [name, value] = templateQuery.split('=');
+    if (url.pathname !== templatePath || value !== '{path}') return null;
+    return url.searchParams.get(name) || null;
+  }
+
+  const [prefix, suffix] = templatePath.split('{path}');
+  const { pathname } = url;
+  if (!pathname.startsWith(prefix) || !pathname.endsWith(suffix)) return null;
+
+  const path = pathname.slice(prefix.length, pathname.length - suffix.length);
+  return path || null;
+}
+
+// 以 config.baseUrl 为根地址生成代理URL的配置
+function withBaseUrl(baseUrl: string): ProxyConfig {
+  return { ...getDefaultProxyConfig(), baseUrl };
+}
 
-    // 提取wallpaper路径
-    const pathMatch = url.pathname.match(/\/wallpaper\/(.+)/);
-    if (!pathMatch) {
-      return null;
+/**
+ * 将原始图片URL转换为代理URL（不签名，需要签名时使用 convertToProxyUrlSigned）
+ * 按注册表匹配代理源，根地址为 config.baseUrl；未匹配时按 config 的 originalDomain/proxyPath 转换 /wallpaper/ 路径
+ */
+export function convertToProxyUrl(originalUrl: string, config: ProxyConfig = getDefaultProxyConfig()): string | null {
+  try {
+    const url = new URL(originalUrl);
+
+    for (const source of getProxySources()) {
+      const path = extractSourcePath(source, url);
+      if (path) return `${config.baseUrl}${source.proxyPath}/${path}`;
     }
 
-    const path = pathMatch[1];
-    return `${config.baseUrl}${config.proxyPath}/${path}`;
+    const pathMatch = url.pathname.match(/^\/wallpaper\/(.+)/);
+    if (url.hostname === config.originalDomain && pathMatch) {
+      return `${config.baseUrl}${config.proxyPath}/${pathMatch[1]}`;
+    }
+    return null;
   } catch {
     return null;
   }
 }
 
-// 从代理URL提取原始URL
-export function convertToOriginalUrl(proxyUrl: string, config: ProxyConfig = DEFAULT_PROXY_CONFIG): string | null {
+/**
+ * 从代理URL提取原始URL
+ * 按注册表匹配代理源；未匹配时按 config 的 proxyPath/originalDomain 还原为 /wallpaper/ 路径
+ */
+export function convertToOriginalUrl(proxyUrl: string, config: ProxyConfig = getDefaultProxyConfig()): string | null {
   try {
     const url = new URL(proxyUrl);
-    
-    // 检查是否是代理路径
-    const pathMatch = url.pathname.match(new RegExp(`${config.proxyPath.replace(/\//g, '\\/')}\\/(.+)`));
-    if (!pathMatch) {
-      return null;
+
+    for (const source of getProxySources()) {
+      const prefix = `${source.proxyPath}/`;
+      if (!url.pathname.startsWith(prefix) || url.pathname.length === prefix.length) continue;
+
+      return buildUpstreamUrl(source, url.pathname.slice(prefix.length));
     }
 
-    const path = pathMatch[1];
-    return `https://${config.originalDomain}/wallpaper/${path}`;
+    const prefix = `${config.proxyPath}/`;
+    if (url.pathname.startsWith(prefix) && url.pathname.length > prefix.length) {
+      return `https://${config.originalDomain}/wallpaper/${url.pathname.slice(prefix.length)}`;
+    }
+    return null;
   } catch {
     return null;
   }
 }
 
-// 批量转换图片URL
-export function batchConvertUrls(
-  items: Array<{ src?: { rawSrc?: string } }>, 
-  config: ProxyConfig = DEFAULT_PROXY_CONFIG
-): Array<{ src?: { rawSrc?: string; proxyUrl?: string } }> {
-  return items.map(item => {
-    if (item.src?.rawSrc) {
-      const proxyUrl = convertToProxyUrl(item.src.rawSrc, config);
-      return {
-        ...item,
-        src: {
-          ...item.src,
-          proxyUrl: proxyUrl || undefined
-        }
-      };
+// 列表中的缩略图参数
+export const THUMBNAIL_OPTIMIZATION: ImageOptimization = { width: 480, quality: 75 };
+
+// 附加到图片条目上的代理地址
+export interface ProxiedImageUrls {
+  proxyUrl?: string;       // 原图
+  thumbnailUrl?: string;   // 缩略图（THUMBNAIL_OPTIMIZATION）
+  optimizedUrl?: string;   // 按请求的优化参数转换后的图片
+}
+
+/**
+ * 批量为图片条目补充代理地址（无法代理的图片不补充）
+ * @param signing 传入时为每个地址追加签名
+ * @param optimization 传入时额外生成 optimizedUrl
+ */
+export async function batchConvertUrls<T extends { src: { rawSrc: string } }>(
+  items: T[],
+  baseUrl: string = getPublicBaseUrl(),
+  signing?: UrlSigningOptions,
+  optimization: ImageOptimization | null = null
+): Promise<Array<T & { src: T['src'] & ProxiedImageUrls }>> {
+  const config = withBaseUrl(baseUrl);
+  const optimize = (rawSrc: string, options: ImageOptimization) => (signing
+    ? buildOptimizedUrlSigned(rawSrc, options, signing, config)
+    : buildOptimizedUrl(rawSrc, options, config));
+
+  return Promise.all(items.map(async item => {
+    const proxyUrl = signing
+      ? await convertToProxyUrlSigned(item.src.rawSrc, signing, config)
+      : convertToProxyUrl(item.src.rawSrc, config);
+    if (!proxyUrl) return item;
+
+    const urls: ProxiedImageUrls = {
+      proxyUrl,
+      thumbnailUrl: await optimize(item.src.rawSrc, THUMBNAIL_OPTIMIZATION)
+    };
+    if (optimization) {
+      urls.optimizedUrl = await optimize(item.src.rawSrc, optimization);
     }
-    return item;
-  });
+
+    return { ...item, src: { ...item.src, ...urls } };
+  }));
+}
+
+// 从URL中取图片文件名：路径的最后一段
+// 路径不含扩展名时（如 Bing 的 /th?id=<图片名>.jpg），取第一个带扩展名的查询参数值
+export function getImageFilename(url: URL): string {
+  const filename = url.pathname.split('/').pop() || '';
+  if (filename.includes('.')) return filename;
+
+  for (const value of url.searchParams.values()) {
+    const name = value.split('/').pop() || '';
+    if (/\.[a-z0-9]+$/i.test(name)) return name;
+  }
+  return filename;
 }
 
 // 验证图片URL格式
@@ -84,10 +462,9 @@ export function validateImageUrl(url: string): { valid: boolean; reason?: string
     }
 
     // 检查文件扩展名
-    const validExtensions = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.bmp'];
-    const hasValidExtension = validExtensions.some(ext => 
-      urlObj.pathname.toLowerCase().endsWith(ext)
-    );
+    const validExtensions = ['.jpg', '.jpeg', '.png', '.webp', '.gif', '.bmp', '.avif'];
+    const filename = getImageFilename(urlObj).toLowerCase();
+    const hasValidExtension = validExtensions.some(ext => filename.endsWith(ext));
 
     if (!hasValidExtension) {
       return { valid: false, reason: 'Invalid image extension' };
@@ -99,18 +476,70 @@ export function validateImageUrl(url: string): { valid: boolean; reason?: string
   }
 }
 
+// 可通过文件头识别的图片格式
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp' | 'bmp' | 'avif';
+
+// 识别文件头需要预读的字节数（AVIF 需要读取 ftyp box 中的兼容品牌列表）
+export const IMAGE_SNIFF_LENGTH = 64;
+
+function matchesSignature(bytes: Uint8Array, offset: number, signature: number[] | string): boolean {
+  const expected = typeof signature === 'string'
+    ? [...signature].map(char => char.charCodeAt(0))
+    : signature;
+  if (bytes.byteLength < offset + expected.length) return false;
+  return expected.every((byte, i) => bytes[offset + i] === byte);
+}
+
+// AVIF：ISO BMFF 的 ftyp box，主品牌或兼容品牌为 avif/avis
+function isAvif(bytes: Uint8Array): boolean {
+  if (!matchesSignature(bytes, 4, 'ftyp')) return false;
+
+  const boxSize = ((bytes[0] << 24) | (bytes[1] << 16) | (bytes[2] << 8) | bytes[3]) >>> 0;
+  const end = Math.min(boxSize, bytes.byteLength);
+  // 主品牌位于偏移 8，兼容品牌从偏移 16 开始，每个 4 字节
+  for (let offset = 8; offset + 4 <= end; offset += offset === 8 ? 8 : 4) {
+    if (matchesSignature(bytes, offset, 'avif') || matchesSignature(bytes, offset, 'avis')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// 根据文件头（magic bytes）识别图片格式，无法识别时返回 null
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (matchesSignature(bytes, 0, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (matchesSignature(bytes, 0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (matchesSignature(bytes, 0, 'GIF87a') || matchesSignature(bytes, 0, 'GIF89a')) return 'gif';
+  if (matchesSignature(bytes, 0, 'RIFF') && matchesSignature(bytes, 8, 'WEBP')) return 'webp';
+  if (matchesSignature(bytes, 0, 'BM') && bytes.byteLength >= 14) return 'bmp';
+  if (isAvif(bytes)) return 'avif';
+  return null;
+}
+
+// 上游声明的 Content-Type 是否可能为图片（SVG 可包含脚本，不允许）
+export function isImageContentType(contentType: string | null): boolean {
+  if (!contentType) return true;
+
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  if (type === 'image/svg+xml') return false;
+  return type.startsWith('image/') || type === 'application/octet-stream' || type === 'binary/octet-stream';
+}
+
 // 生成图片元数据
-export function generateImageMetadata(url: string) {
+// outputFormat 为识别、协商或转换后的实际格式，未指定时与原图扩展名一致
+export function generateImageMetadata(url: string, outputFormat?: ImageFormat) {
   try {
     const urlObj = new URL(url);
-    const filename = urlObj.pathname.split('/').pop() || 'image';
+    const filename = getImageFilename(urlObj) || 'image';
     const extension = filename.split('.').pop()?.toLowerCase() || 'jpg';
+    const format = outputFormat || extension;
     
     return {
       filename,
       extension,
-      mimeType: getMimeType(extension),
-      isSupported: ['jpg', 'jpeg', 'png', 'webp', 'gif'].includes(extension)
+      format,
+      mimeType: getMimeType(format),
+      isSupported: ['jpg', 'jpeg', 'png', 'webp', 'gif', 'avif'].includes(extension)
     };
   } catch {
     return null;
@@ -118,110 +547,260 @@ export function generateImageMetadata(url: string) {
 }
 
 // 获取MIME类型
-function getMimeType(extension: string): string {
+export function getMimeType(extension: string): string {
   const mimeTypes: Record<string, string> = {
     'jpg': 'image/jpeg',
     'jpeg': 'image/jpeg',
     'png': 'image/png',
     'webp': 'image/webp',
     'gif': 'image/gif',
-    'bmp': 'image/bmp'
+    'bmp': 'image/bmp',
+    'avif': 'image/avif'
   };
   
   return mimeTypes[extension.toLowerCase()] || 'image/jpeg';
 }
 
-// 构建缓存键
-export function buildCacheKey(url: string): string {
+// 构建缓存键，variant 用于区分同一图片的不同转换结果
+export function buildCacheKey(url: string, variant?: string): string {
   try {
     const urlObj = new URL(url);
-    return `img_${Buffer.from(urlObj.pathname).toString('base64').slice(0, 32)}`;
+    const key = `img:${urlObj.host}${urlObj.pathname}${urlObj.search}`;
+    return variant ? `${key}#${variant}` : key;
   } catch {
-    return `img_${Date.now()}`;
+    return `img:${Date.now()}`;
   }
 }
 
+// 图片缩放模式
+// - cover: 等比缩放后居中裁剪为目标尺寸
+// - contain: 等比缩放至完全落在目标尺寸内
+// - fill: 拉伸至目标尺寸
+export type ImageFit = 'cover' | 'contain' | 'fill';
+
+// 字节范围（闭区间）
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+// 解析 Range 请求头，仅支持单个字节范围
+// 返回 null 表示忽略 Range（未携带、多段或格式无效，按完整内容响应），'unsatisfiable' 表示范围无法满足（416）
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  if (!header) return null;
+
+  const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return null;
+  }
+
+  // 后缀范围：bytes=-500 表示最后500字节
+  if (match[1] === '') {
+    const suffixLength = parseInt(match[2], 10);
+    if (suffixLength === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(size - suffixLength, 0), end: size - 1 };
+  }
+
+  const start = parseInt(match[1], 10);
+  const end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+
+  if (start >= size) return 'unsatisfiable';
+  if (end < start) return null;
+
+  return { start, end };
+}
+
+// 判断 If-Range 条件是否成立（成立时才按 Range 返回部分内容）
+// ETag 需强比较，弱 ETag 永远不匹配；日期需与 Last-Modified 完全一致
+export function isIfRangeSatisfied(
+  ifRange: string | undefined,
+  etag: string | null,
+  lastModified: string | null
+): boolean {
+  if (!ifRange) return true;
+
+  const value = ifRange.trim();
+  if (value.startsWith('"') || value.startsWith('W/')) {
+    return !!etag && !etag.startsWith('W/') && value === etag;
+  }
+
+  return !!lastModified && value === lastModified;
+}
+
+// 输出图片格式
+export type OutputFormat = 'avif' | 'webp' | 'jpeg' | 'png';
+
 // 图片优化参数
 export interface ImageOptimization {
   width?: number;
   height?: number;
   quality?: number;
-  format?: 'webp' | 'jpeg' | 'png';
+  format?: OutputFormat;
+  fit?: ImageFit;
+}
+
+// 图片优化参数取值范围
+export const IMAGE_OPTIMIZATION_LIMITS = {
+  minDimension: 1,
+  maxDimension: 4096,
+  minQuality: 1,
+  maxQuality: 100,
+  defaultQuality: 80
+};
+
+export const SUPPORTED_OUTPUT_FORMATS: OutputFormat[] = ['avif', 'webp', 'jpeg', 'png'];
+export const SUPPORTED_FITS: ImageFit[] = ['cover', 'contain', 'fill'];
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
 }
 
-// 构建优化后的URL（如果支持的话）
+// 从查询参数解析图片优化参数（w/h/q/f/fit），数值越界时自动收敛到允许范围
+// 未携带任何优化参数时返回 null，参数不合法时返回 error 与对应的参数名 field
+export function parseImageOptimization(
+  query: Record<string, string | undefined>
+): { optimization: ImageOptimization | null; error?: string; field?: string } {
+  const { w, h, q, f, fit } = query;
+
+  if (!w && !h && !q && !f && !fit) {
+    return { optimization: null };
+  }
+
+  const optimization: ImageOptimization = {};
+  const { minDimension, maxDimension, minQuality, maxQuality } = IMAGE_OPTIMIZATION_LIMITS;
+
+  if (w) {
+    const width = parseInt(w, 10);
+    if (isNaN(width)) return { optimization: null, field: 'w', error: 'Invalid width' };
+    optimization.width = clamp(width, minDimension, maxDimension);
+  }
+
+  if (h) {
+    const height = parseInt(h, 10);
+    if (isNaN(height)) return { optimization: null, field: 'h', error: 'Invalid height' };
+    optimization.height = clamp(height, minDimension, maxDimension);
+  }
+
+  if (q) {
+    const quality = parseInt(q, 10);
+    if (isNaN(quality)) return { optimization: null, field: 'q', error: 'Invalid quality' };
+    optimization.quality = clamp(quality, minQuality, maxQuality);
+  }
+
+  if (f) {
+    const format = f.toLowerCase() === 'jpg' ? 'jpeg' : f.toLowerCase();
+    if (!SUPPORTED_OUTPUT_FORMATS.includes(format as OutputFormat)) {
+      return { optimization: null, field: 'f', error: 'Unsupported format' };
+    }
+    optimization.format = format as OutputFormat;
+  }
+
+  if (fit) {
+    if (!SUPPORTED_FITS.includes(fit as ImageFit)) {
+      return { optimization: null, field: 'fit', error: 'Unsupported fit mode' };
+    }
+    optimization.fit = fit as ImageFit;
+  }
+
+  return { optimization };
+}
+
+// 按 Accept 请求头协商输出格式（AVIF > WebP），客户端未明确声明支持时返回 null 表示保持原格式
+// 通配符（image/*、*/*）不视为支持，避免向不支持新格式的客户端返回无法解码的图片
+export function negotiateImageFormat(
+  accept: string | undefined,
+  available: OutputFormat[] = SUPPORTED_OUTPUT_FORMATS
+): OutputFormat | null {
+  if (!accept) return null;
+
+  const accepted = new Set<string>();
+  for (const part of accept.split(',')) {
+    const [type, ...params] = part.trim().toLowerCase().split(';');
+    const qParam = params.find(param => param.trim().startsWith('q='));
+    const q = qParam ? parseFloat(qParam.trim().slice(2)) : 1;
+    if (q > 0) accepted.add(type.trim());
+  }
+
+  const preferred: OutputFormat[] = ['avif', 'webp'];
+  for (const format of preferred) {
+    if (available.includes(format) && accepted.has(getMimeType(format))) {
+      return format;
+    }
+  }
+
+  return null;
+}
+
+// 构建优化后的URL（如果支持的话，不签名；需要签名时使用 buildOptimizedUrlSigned）
 export function buildOptimizedUrl(
   originalUrl: string, 
   optimization: ImageOptimization,
-  config: ProxyConfig = DEFAULT_PROXY_CONFIG
+  config: ProxyConfig = getDefaultProxyConfig()
 ): string {
   const proxyUrl = convertToProxyUrl(originalUrl, config);
   if (!proxyUrl) return originalUrl;
 
-  const params = new URLSearchParams();
-  
-  if (optimization.width) params.set('w', optimization.width.toString());
-  if (optimization.height) params.set('h', optimization.height.toString());
-  if (optimization.quality) params.set('q', optimization.quality.toString());
-  if (optimization.format) params.set('f', optimization.format);
-
-  const queryString = params.toString();
+  const queryString = serializeImageOptimization(optimization);
   return queryString ? `${proxyUrl}?${queryString}` : proxyUrl;
 }
 
-// 代理统计信息
-export interface ProxyStats {
-  totalRequests: number;
-  successfulRequests: number;
-  failedRequests: number;
-  cacheHits: number;
-  averageResponseTime: number;
-  lastRequestTime: string;
-}
-
-// 简单的内存统计（生产环境建议使用Redis等）
-let proxyStats: ProxyStats = {
-  totalRequests: 0,
-  successfulRequests: 0,
-  failedRequests: 0,
-  cacheHits: 0,
-  averageResponseTime: 0,
-  lastRequestTime: new Date().toISOString()
-};
+// 将原始图片URL转换为带过期时间与签名的代理URL，无法代理时返回 null
+export async function convertToProxyUrlSigned(
+  originalUrl: string,
+  signing: UrlSigningOptions,
+  config: ProxyConfig = getDefaultProxyConfig()
+): Promise<string | null> {
+  const proxyUrl = convertToProxyUrl(originalUrl, config);
+  return proxyUrl ? signProxyUrl(proxyUrl, signing) : null;
+}
 
-// 更新统计信息
-export function updateProxyStats(success: boolean, responseTime: number, fromCache: boolean = false) {
-  proxyStats.totalRequests++;
-  proxyStats.lastRequestTime = new Date().toISOString();
-  
-  if (success) {
-    proxyStats.successfulRequests++;
+// 构建带过期时间与签名的优化后URL，无法代理时原样返回原始URL（不签名）
+export async function buildOptimizedUrlSigned(
+  originalUrl: string,
+  optimization: ImageOptimization,
+  signing: UrlSigningOptions,
+  config: ProxyConfig = getDefaultProxyConfig()
+): Promise<string> {
+  const url = buildOptimizedUrl(originalUrl, optimization, config);
+  return url === originalUrl ? url : signProxyUrl(url, signing);
+}
+
+/**
+ * 生成原始图片对应的代理URL（可带优化参数与签名）
+ * 优先使用匹配的代理源，其他图片走通用代理 /api/proxy?url=
+ */
+export async function resolveProxyUrl(
+  originalUrl: string,
+  baseUrl: string = getPublicBaseUrl(),
+  optimization: ImageOptimization | null = null,
+  signing?: UrlSigningOptions
+): Promise<string> {
+  const queryString = serializeImageOptimization(optimization);
+  const proxyUrl = convertToProxyUrl(originalUrl, withBaseUrl(baseUrl));
+
+  let url: string;
+  if (proxyUrl) {
+    url = queryString ? `${proxyUrl}?${queryString}` : proxyUrl;
   } else {
-    proxyStats.failedRequests++;
+    const params = new URLSearchParams(queryString);
+    params.set('url', originalUrl);
+    url = `${baseUrl}${GENERIC_PROXY_PATH}?${params.toString()}`;
   }
-  
-  if (fromCache) {
-    proxyStats.cacheHits++;
-  }
-  
-  // 计算平均响应时间
-  proxyStats.averageResponseTime = 
-    (proxyStats.averageResponseTime * (proxyStats.totalRequests - 1) + responseTime) / proxyStats.totalRequests;
-}
 
-// 获取统计信息
-export function getProxyStats(): ProxyStats {
-  return { ...proxyStats };
+  return signing ? signProxyUrl(url, signing) : url;
 }
 
-// 重置统计信息
-export function resetProxyStats() {
-  proxyStats = {
-    totalRequests: 0,
-    successfulRequests: 0,
-    failedRequests: 0,
-    cacheHits: 0,
-    averageResponseTime: 0,
-    lastRequestTime: new Date().toISOString()
-  };
+// 将图片优化参数序列化为查询字符串（w/h/q/f/fit），也用作缓存键的变体部分
+export function serializeImageOptimization(optimization: ImageOptimization | null): string {
+  if (!optimization) return '';
+
+  const params = new URLSearchParams();
+  
+  if (optimization.width) params.set('w', optimization.width.toString());
+  if (optimization.height) params.set('h', optimization.height.toString());
+  if (optimization.quality) params.set('q', optimization.quality.toString());
+  if (optimization.format) params.set('f', optimization.format);
+  if (optimization.fit) params.set('fit', optimization.fit);
+
+  return params.toString();
 }
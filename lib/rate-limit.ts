@@ -0,0 +1,244 @@
+// 限流中间件：按客户端 IP 或 API Key 的令牌桶限流，计数存储可替换
+import type { Context, MiddlewareHandler } from 'hono'
+import { getConfig } from './config'
+
+// 令牌桶状态
+export interface BucketState {
+  tokens: number     // 当前剩余令牌（按字节计费时可能为负，表示透支）
+  updatedAt: number  // 上次更新时间（毫秒时间戳）
+}
+
+/**
+ * 计数存储接口（内存、Redis、KV 等按此接口实现）
+ * ttl 为状态可被清理的时长（秒），此时令牌桶必然已回满
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>
+  set(key: string, state: BucketState, ttl: number): Promise<void>
+}
+
+/**
+ * 内存计数存储（边缘函数实例内有效）
+ * 条目数超过上限时清理已过期的条目，仍超限则淘汰最早写入的条目
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { state: BucketState; expiresAt: number }>()
+
+  constructor(private maxKeys: number = 10000) {}
+
+  async get(key: string): Promise<BucketState | null> {
+    const item = this.buckets.get(key)
+    if (!item) return null
+
+    if (Date.now() >= item.expiresAt) {
+      this.buckets.delete(key)
+      return null
+    }
+    return item.state
+  }
+
+  async set(key: string, state: BucketState, ttl: number): Promise<void> {
+    this.buckets.delete(key)
+    this.buckets.set(key, { state, expiresAt: Date.now() + ttl * 1000 })
+
+    if (this.buckets.size > this.maxKeys) {
+      this.prune()
+    }
+  }
+
+  private prune() {
+    const now = Date.now()
+    for (const [key, item] of this.buckets) {
+      if (now >= item.expiresAt) this.buckets.delete(key)
+    }
+    for (const key of this.buckets.keys()) {
+      if (this.buckets.size <= this.maxKeys) break
+      this.buckets.delete(key)
+    }
+  }
+}
+
+// 限流规则：每个客户端在 window 秒内最多消耗 limit 个令牌，令牌匀速回补
+export interface RateLimitRule {
+  limit: number
+  window: number
+}
+
+export interface RateLimitOptions extends RateLimitRule {
+  name: string                              // 令牌桶命名空间，不同规则互不影响
+  cost?: 'requests' | 'bytes'               // 按请求次数或响应字节数计费，默认 requests
+  store?: RateLimitStore                    // 默认使用共享的内存存储
+  apiKeys?: string[]                        // 可识别的 API Key，默认读取 RATE_LIMIT_API_KEYS
+  onLimited?: (c: Context, retryAfter: number) => Response | Promise<Response>  // 自定义 429 响应体
+}
+
+// 限流检查结果
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  reset: number       // 令牌回满所需秒数
+  retryAfter: number  // 被拒绝时需要等待的秒数
+}
+
+const defaultStore = new MemoryRateLimitStore()
+
+/**
+ * 获取客户端 IP
+ * 优先使用平台设置的 x-real-ip（Vercel）或 cf-connecting-ip（Cloudflare），客户端无法伪造
+ * x-forwarded-for 的前几项可由客户端任意填写，只取最后一个代理追加的地址
+ */
+export function getClientIp(c: Context): string {
+  const realIp = c.req.header('x-real-ip') || c.req.header('cf-connecting-ip')
+  if (realIp) {
+    return realIp.trim()
+  }
+
+  const forwardedFor = c.req.header('x-forwarded-for')
+  const lastHop = forwardedFor?.split(',').pop()?.trim()
+  return lastHop || 'unknown'
+}
+
+/**
+ * 计算限流主体：携带已配置的 API Key 时按 Key 限流，否则按 IP
+ * 未配置的 Key 不生效，避免通过更换 Key 绕过 IP 限流
+ */
+export function getRateLimitKey(c: Context, apiKeys: string[]): string {
+  const apiKey = c.req.header('x-api-key')
+  if (apiKey && apiKeys.includes(apiKey)) {
+    return `key:${apiKey}`
+  }
+  return `ip:${getClientIp(c)}`
+}
+
+// 按经过的时间回补令牌
+function refill(state: BucketState | null, rule: RateLimitRule, now: number): BucketState {
+  if (!state) return { tokens: rule.limit, updatedAt: now }
+
+  const rate = rule.limit / rule.window
+  const elapsed = Math.max(0, now - state.updatedAt) / 1000
+  return {
+    tokens: Math.min(rule.limit, state.tokens + elapsed * rate),
+    updatedAt: now
+  }
+}
+
+function buildResult(state: BucketState, rule: RateLimitRule, allowed: boolean): RateLimitResult {
+  const rate = rule.limit / rule.window
+  return {
+    allowed,
+    remaining: Math.max(0, Math.floor(state.tokens)),
+    reset: Math.ceil((rule.limit - state.tokens) / rate),
+    retryAfter: allowed ? 0 : Math.max(1, Math.ceil((1 - state.tokens) / rate))
+  }
+}
+
+/**
+ * 从令牌桶中扣除 cost 个令牌
+ * allowOverdraft 为 true 时不足也会扣除（用于事后按字节计费）
+ */
+export async function consumeTokens(
+  store: RateLimitStore,
+  key: string,
+  rule: RateLimitRule,
+  cost: number,
+  allowOverdraft: boolean = false
+): Promise<RateLimitResult> {
+  const now = Date.now()
+  const state = refill(await store.get(key), rule, now)
+  // 至少需要1个令牌，按字节计费的预检（cost 为0）在透支时被拒绝
+  const allowed = state.tokens >= Math.max(cost, 1)
+
+  if (allowed || allowOverdraft) {
+    state.tokens -= cost
+  }
+  await store.set(key, state, rule.window)
+
+  return buildResult(state, rule, allowed)
+}
+
+// 设置 RateLimit-* 响应头（IETF draft-ietf-httpapi-ratelimit-headers）
+function setRateLimitHeaders(headers: Headers, rule: RateLimitRule, result: RateLimitResult) {
+  headers.set('RateLimit-Limit', rule.limit.toString())
+  headers.set('RateLimit-Remaining', result.remaining.toString())
+  headers.set('RateLimit-Reset', result.reset.toString())
+  headers.set('RateLimit-Policy', `${rule.limit};w=${rule.window}`)
+}
+
+// 统计流式响应体的字节数，结束后回调
+function countBytes(body: ReadableStream<Uint8Array>, onDone: (bytes: number) => void): ReadableStream<Uint8Array> {
+  let bytes = 0
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      bytes += chunk.byteLength
+      controller.enqueue(chunk)
+    },
+    flush() {
+      onDone(bytes)
+    }
+  }))
+}
+
+/**
+ * 创建限流中间件
+ * - requests：每个请求消耗1个令牌，不足时返回 429
+ * - bytes：令牌透支（为负）时返回 429；响应结束后按实际字节数扣除
+ */
+export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
+  const store = options.store || defaultStore
+  const rule: RateLimitRule = { limit: options.limit, window: options.window }
+  const cost = options.cost || 'requests'
+
+  return async (c, next) => {
+    // CORS 预检不计入限流
+    if (c.req.method === 'OPTIONS') {
+      return next()
+    }
+
+    const key = `${options.name}:${getRateLimitKey(c, options.apiKeys || getConfig().rateLimit.apiKeys)}`
+    let result: RateLimitResult
+
+    try {
+      result = await consumeTokens(store, key, rule, cost === 'requests' ? 1 : 0)
+    } catch (error) {
+      // 计数存储不可用时放行，避免限流故障导致服务不可用
+      console.error('Rate limit store error:', error)
+      return next()
+    }
+
+    if (!result.allowed) {
+      const response = options.onLimited
+        ? await options.onLimited(c, result.retryAfter)
+        : c.json({ error: 'Too many requests', retryAfter: result.retryAfter }, 429)
+
+      const limited = new Response(response.body, { status: 429, headers: response.headers })
+      setRateLimitHeaders(limited.headers, rule, result)
+      limited.headers.set('Retry-After', result.retryAfter.toString())
+      return limited
+    }
+
+    await next()
+
+    if (cost === 'requests') {
+      setRateLimitHeaders(c.res.headers, rule, result)
+      return
+    }
+
+    // 按字节计费：有 Content-Length 时立即扣除，否则在响应体传输结束后扣除
+    const charge = (bytes: number) => consumeTokens(store, key, rule, bytes, true)
+      .catch(error => {
+        console.error('Rate limit store error:', error)
+        return null
+      })
+
+    const contentLength = parseInt(c.res.headers.get('content-length') || '', 10)
+    if (c.req.method === 'HEAD' || !c.res.body || !isNaN(contentLength)) {
+      const bytes = c.req.method === 'HEAD' || isNaN(contentLength) ? 0 : contentLength
+      const charged = bytes > 0 ? await charge(bytes) : null
+      setRateLimitHeaders(c.res.headers, rule, charged || result)
+      return
+    }
+
+    setRateLimitHeaders(c.res.headers, rule, result)
+    c.res = new Response(countBytes(c.res.body, bytes => { charge(bytes) }), c.res)
+  }
+}
@@ -0,0 +1,62 @@
+// 按会话令牌记录最近返回过的壁纸，随机接口据此避免短时间内重复
+export const RECENT_HISTORY_SIZE = 50              // 每个会话记录的壁纸数量
+export const RECENT_HISTORY_TTL = 24 * 60 * 60     // 会话记录的保留时长（秒）
+export const MAX_SESSION_TOKEN_LENGTH = 128
+
+/**
+ * 最近记录存储接口（内存、Redis、KV 等按此接口实现）
+ * ids 按返回顺序排列，最新的在末尾
+ */
+export interface RecentHistoryStore {
+  get(token: string): Promise<string[]>
+  set(token: string, ids: string[], ttl: number): Promise<void>
+}
+
+/**
+ * 内存存储（边缘函数实例内有效）
+ * 会话数超过上限时淘汰最早写入的会话
+ */
+export class MemoryRecentHistoryStore implements RecentHistoryStore {
+  private sessions = new Map<string, { ids: string[]; expiresAt: number }>()
+
+  constructor(private maxSessions: number = 10000) {}
+
+  async get(token: string): Promise<string[]> {
+    const item = this.sessions.get(token)
+    if (!item) return []
+
+    if (Date.now() >= item.expiresAt) {
+      this.sessions.delete(token)
+      return []
+    }
+    return item.ids
+  }
+
+  async set(token: string, ids: string[], ttl: number): Promise<void> {
+    this.sessions.delete(token)
+    this.sessions.set(token, { ids, expiresAt: Date.now() + ttl * 1000 })
+
+    for (const key of this.sessions.keys()) {
+      if (this.sessions.size <= this.maxSessions) break
+      this.sessions.delete(key)
+    }
+  }
+}
+
+let recentHistoryStore: RecentHistoryStore = new MemoryRecentHistoryStore()
+
+export function getRecentHistoryStore(): RecentHistoryStore {
+  return recentHistoryStore
+}
+
+// 替换默认存储
+export function setRecentHistoryStore(store: RecentHistoryStore) {
+  recentHistoryStore = store
+}
+
+// 记录一次返回的壁纸，只保留最近 RECENT_HISTORY_SIZE 条
+export async function rememberServed(token: string, id: string, store: RecentHistoryStore = recentHistoryStore) {
+  const ids = (await store.get(token)).filter(item => item !== id)
+  ids.push(id)
+  await store.set(token, ids.slice(-RECENT_HISTORY_SIZE), RECENT_HISTORY_TTL)
+}
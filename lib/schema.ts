@@ -0,0 +1,117 @@
+// 查询参数校验：声明式定义参数的类型与取值范围，校验失败时返回逐字段的错误；同一份定义用于生成 OpenAPI 参数
+import type { Context, MiddlewareHandler } from 'hono'
+
+// 单个查询参数的定义（取值均为字符串，按 type 校验格式）
+export interface QueryParamSchema {
+  type: 'string' | 'integer'
+  description: string
+  required?: boolean
+  enum?: string[]
+  minimum?: number
+  maximum?: number
+  clamp?: boolean       // 数值超出 minimum/maximum 时收敛到范围内，而不是报错
+  pattern?: string      // 正则表达式（完整匹配）
+  maxLength?: number
+  default?: string | number
+  example?: string
+}
+
+export type QuerySchema = Record<string, QueryParamSchema>
+
+// 字段级错误
+export interface FieldError {
+  field: string
+  message: string
+}
+
+// 校验单个参数，合法时返回 null
+function validateParam(name: string, schema: QueryParamSchema, value: string): string | null {
+  if (schema.type === 'integer') {
+    if (!/^-?\d+$/.test(value.trim())) {
+      return `${name} must be an integer`
+    }
+    if (schema.clamp) return null
+
+    const parsed = parseInt(value, 10)
+    if (schema.minimum !== undefined && parsed < schema.minimum) {
+      return `${name} must be at least ${schema.minimum}`
+    }
+    if (schema.maximum !== undefined && parsed > schema.maximum) {
+      return `${name} must be at most ${schema.maximum}`
+    }
+    return null
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${name} must be one of ${schema.enum.join(', ')}`
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    return `${name} must be at most ${schema.maxLength} characters`
+  }
+  if (schema.pattern && !new RegExp(`^(?:${schema.pattern})$`).test(value)) {
+    return `${name} has an invalid format`
+  }
+  return null
+}
+
+/**
+ * 按定义校验查询参数，返回全部字段错误（无错误时为空数组）
+ * 空字符串视为未传；未定义的参数不校验
+ */
+export function validateQuery(schema: QuerySchema, query: Record<string, string | undefined>): FieldError[] {
+  const errors: FieldError[] = []
+
+  for (const [name, param] of Object.entries(schema)) {
+    const value = query[name]
+    if (value === undefined || value === '') {
+      if (param.required) {
+        errors.push({ field: name, message: `${name} is required` })
+      }
+      continue
+    }
+
+    const message = validateParam(name, param, value)
+    if (message) {
+      errors.push({ field: name, message })
+    }
+  }
+
+  return errors
+}
+
+/**
+ * 查询参数校验中间件
+ * @param onInvalid 生成 400 响应（各路由的响应格式不同）
+ */
+export function queryValidator(
+  schema: QuerySchema,
+  onInvalid: (c: Context, errors: FieldError[]) => Response | Promise<Response>
+): MiddlewareHandler {
+  return async (c, next) => {
+    const errors = validateQuery(schema, c.req.query())
+    if (errors.length > 0) {
+      return onInvalid(c, errors)
+    }
+    await next()
+  }
+}
+
+// 转换为 OpenAPI 3 的查询参数列表
+export function toOpenApiParameters(schema: QuerySchema): object[] {
+  return Object.entries(schema).map(([name, param]) => ({
+    name,
+    in: 'query',
+    required: param.required || false,
+    description: param.description,
+    schema: {
+      type: param.type,
+      enum: param.enum,
+      minimum: param.minimum,
+      maximum: param.maximum,
+      pattern: param.pattern,
+      maxLength: param.maxLength,
+      default: param.default
+    },
+    example: param.example
+  }))
+}
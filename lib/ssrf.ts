@@ -0,0 +1,100 @@
+// 通用代理的目标地址校验（SSRF 防护）：主机白名单、禁止内网/回环/链路本地地址与非标准端口
+import { getProxySources, getUpstreamOrigins } from './proxy-utils'
+import { getConfig } from './config'
+
+// 通用代理最多跟随的重定向次数
+export const MAX_PROXY_REDIRECTS = 3
+
+/**
+ * 通用代理允许访问的主机
+ * 默认为已注册代理源的上游（含镜像），PROXY_ALLOWED_HOSTS 可追加（逗号分隔，支持 *.example.com）
+ */
+export function getAllowedProxyHosts(): string[] {
+  const hosts = getProxySources().flatMap(source => getUpstreamOrigins(source))
+  const extra = getConfig().allowedHosts
+
+  return [...new Set([...hosts, ...extra])]
+}
+
+function matchesAllowedHost(hostname: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some(pattern => pattern.startsWith('*.')
+    ? hostname.endsWith(pattern.slice(1))
+    : hostname === pattern)
+}
+
+// IPv4 是否属于内网、回环、链路本地、保留或组播地址段
+function isPrivateIPv4(address: string): boolean {
+  const parts = address.split('.').map(Number)
+  const [a, b] = parts
+
+  return a === 0                                 // 0.0.0.0/8
+    || a === 10                                  // 10.0.0.0/8
+    || a === 127                                 // 127.0.0.0/8 回环
+    || (a === 100 && b >= 64 && b <= 127)        // 100.64.0.0/10 运营商 NAT
+    || (a === 169 && b === 254)                  // 169.254.0.0/16 链路本地（含云厂商元数据地址）
+    || (a === 172 && b >= 16 && b <= 31)         // 172.16.0.0/12
+    || (a === 192 && b === 168)                  // 192.168.0.0/16
+    || (a === 192 && b === 0 && parts[2] === 0)  // 192.0.0.0/24
+    || (a === 198 && (b === 18 || b === 19))     // 198.18.0.0/15 基准测试
+    || a >= 224                                  // 组播与保留地址
+}
+
+// IPv6 是否属于回环、未指定、唯一本地、链路本地地址，或映射/兼容的内网 IPv4
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase()
+  if (normalized === '::' || normalized === '::1') return true
+
+  // ::ffff:a.b.c.d 或 ::ffff:7f00:1 形式的 IPv4 映射地址
+  const mapped = normalized.match(/^::ffff:(.+)$/)
+  if (mapped) {
+    const tail = mapped[1]
+    if (tail.includes('.')) return isPrivateIPv4(tail)
+
+    const [high, low] = tail.split(':').map(part => parseInt(part, 16))
+    return isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'))
+  }
+
+  const first = parseInt(normalized.split(':')[0] || '0', 16)
+  return (first & 0xfe00) === 0xfc00   // fc00::/7 唯一本地
+    || (first & 0xffc0) === 0xfe80     // fe80::/10 链路本地
+    || (first & 0xff00) === 0xff00     // ff00::/8 组播
+}
+
+/**
+ * 检查主机名是否指向内网地址
+ * 边缘运行时无法解析 DNS，只能识别 IP 字面量与保留域名；域名的安全性依赖主机白名单
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) return isPrivateIPv4(host)
+  if (host.includes(':')) return isPrivateIPv6(host)
+  return false
+}
+
+/**
+ * 校验通用代理的目标地址（含每一次重定向的目标）
+ * 返回拒绝原因，允许时返回 null
+ */
+export function checkProxyTarget(url: URL, allowedHosts: string[] = getAllowedProxyHosts()): string | null {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Invalid protocol'
+  }
+  // URL 会省略协议的默认端口，显式端口即为非标准端口
+  if (url.port !== '') {
+    return 'Non-standard port'
+  }
+  if (url.username || url.password) {
+    return 'Credentials are not allowed'
+  }
+  if (isPrivateHost(url.hostname)) {
+    return 'Private address'
+  }
+  if (!matchesAllowedHost(url.hostname.toLowerCase(), allowedHosts)) {
+    return 'Host not allowed'
+  }
+  return null
+}
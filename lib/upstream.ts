@@ -0,0 +1,410 @@
+// 上游请求工具：超时控制、响应体大小限制与多源重试
+import { getCircuitBreaker } from './circuit-breaker'
+
+// 上游请求失败（超时、响应过大等），status 为返回给客户端的状态码
+export class UpstreamError extends Error {
+  status: 502 | 503 | 504
+
+  constructor(message: string, status: 502 | 503 | 504) {
+    super(message)
+    this.name = 'UpstreamError'
+    this.status = status
+  }
+}
+
+// 请求上游的函数，签名与全局 fetch 一致
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>
+
+// 默认使用调用时的全局 fetch
+const globalFetch: FetchFunction = (input, init) => fetch(input, init)
+
+let upstreamFetch: FetchFunction = globalFetch
+
+/**
+ * 获取请求上游（图床、壁纸数据、Bing 接口）使用的 fetch
+ */
+export function getUpstreamFetch(): FetchFunction {
+  return upstreamFetch
+}
+
+// 替换上游 fetch（测试时指向本地替身或模拟实现），传入 null 时恢复为全局 fetch
+export function setUpstreamFetch(fetcher: FetchFunction | null) {
+  upstreamFetch = fetcher || globalFetch
+}
+
+// 一次上游请求
+export interface UpstreamFetch {
+  response: Response
+  controller: AbortController
+  // 清除超时计时器（流式响应在收到响应头后即清除，避免慢速客户端触发超时；响应体改由 idleTimeout 限制）
+  clearTimeout: () => void
+  // 实际响应的上游源（经 fetchWithFailover 请求时设置）
+  origin?: string
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')
+}
+
+/**
+ * 带超时的上游请求，超时抛出 UpstreamError(504)
+ * 计时器在调用 clearTimeout 之前持续生效，覆盖响应体的读取
+ */
+export async function fetchUpstream(url: string, init: RequestInit, timeout: number): Promise<UpstreamFetch> {
+  const controller = new AbortController()
+  const timer = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    const response = await upstreamFetch(url, { ...init, signal: controller.signal })
+    return {
+      response,
+      controller,
+      clearTimeout: () => clearTimeout(timer)
+    }
+  } catch (error) {
+    clearTimeout(timer)
+    if (isAbortError(error)) {
+      throw new UpstreamError(`Upstream timeout after ${timeout}ms`, 504)
+    }
+    throw error
+  }
+}
+
+// 响应头声明的长度超过限制时直接拒绝
+export function assertContentLength(response: Response, maxBodySize: number) {
+  const contentLength = parseInt(response.headers.get('content-length') || '', 10)
+  if (!isNaN(contentLength) && contentLength > maxBodySize) {
+    throw new UpstreamError(`Upstream response too large: ${contentLength} bytes exceeds ${maxBodySize} bytes`, 502)
+  }
+}
+
+/**
+ * 读取完整响应体，超过 maxBodySize 时中止上游请求并抛出 UpstreamError(502)
+ */
+export async function readBodyWithLimit(upstream: UpstreamFetch, maxBodySize: number): Promise<Uint8Array> {
+  const { response, controller } = upstream
+  assertContentLength(response, maxBodySize)
+
+  if (!response.body) {
+    return new Uint8Array(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      received += value.byteLength
+      if (received > maxBodySize) {
+        controller.abort()
+        throw new UpstreamError(`Upstream response too large: exceeds ${maxBodySize} bytes`, 502)
+      }
+      chunks.push(value)
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw new UpstreamError('Upstream timeout while reading body', 504)
+    }
+    throw error
+  } finally {
+    upstream.clearTimeout()
+  }
+
+  return concatChunks(chunks, received)
+}
+
+/**
+ * 预读响应体开头至少 length 字节（用于识别文件类型）
+ * 预读的内容会放回 upstream.response 的响应体，不影响后续的读取与转发
+ */
+export async function peekBody(upstream: UpstreamFetch, length: number): Promise<Uint8Array> {
+  const { response } = upstream
+  if (!response.body) {
+    return new Uint8Array(0)
+  }
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let received = 0
+  let done = false
+
+  try {
+    while (received < length) {
+      const result = await reader.read()
+      if (result.done) {
+        done = true
+        break
+      }
+      chunks.push(result.value)
+      received += result.value.byteLength
+    }
+  } catch (error) {
+    if (isAbortError(error)) {
+      throw new UpstreamError('Upstream timeout while reading body', 504)
+    }
+    throw error
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(chunk)
+      }
+      if (done) controller.close()
+    },
+    async pull(controller) {
+      const result = await reader.read()
+      if (result.done) {
+        controller.close()
+      } else {
+        controller.enqueue(result.value)
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    }
+  })
+
+  upstream.response = new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+  return concatChunks(chunks, received)
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const body = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    body.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return body
+}
+
+// 流式转发的结束回调
+export interface StreamCallbacks {
+  // body 仅在设置了 captureLimit 且总大小未超过该值时提供
+  onComplete?: (bytes: number, body?: Uint8Array) => void
+  onError?: (error: Error) => void
+  // 转发的同时保留完整内容（用于写入缓存）的大小上限
+  captureLimit?: number
+  // 等待上游下一块数据的最长时间（毫秒），超时中止上游请求
+  idleTimeout?: number
+}
+
+/**
+ * 将上游响应体直接转发给客户端，同时统计字节数
+ * 超过 maxBodySize 时中止上游请求并使下游流出错
+ * 只在下游读取时才向上游读取，idleTimeout 只计算等待上游的时间，慢速客户端不会触发超时
+ */
+export function limitBodyStream(
+  upstream: UpstreamFetch,
+  maxBodySize: number,
+  callbacks: StreamCallbacks = {}
+): ReadableStream<Uint8Array> | null {
+  const { response, controller } = upstream
+  assertContentLength(response, maxBodySize)
+
+  if (!response.body) {
+    callbacks.onComplete?.(0)
+    return null
+  }
+
+  const reader = response.body.getReader()
+  let received = 0
+  let captured: Uint8Array[] | null = callbacks.captureLimit ? [] : null
+  let idleTimer: ReturnType<typeof setTimeout> | undefined
+
+  const fail = (streamController: ReadableStreamDefaultController<Uint8Array>, error: Error) => {
+    callbacks.onError?.(error)
+    streamController.error(error)
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async pull(streamController) {
+      if (callbacks.idleTimeout) {
+        idleTimer = setTimeout(() => controller.abort(), callbacks.idleTimeout)
+      }
+
+      let result: ReadableStreamReadResult<Uint8Array>
+      try {
+        result = await reader.read()
+      } catch (error) {
+        fail(streamController, isAbortError(error)
+          ? new UpstreamError(`Upstream stalled for ${callbacks.idleTimeout}ms while streaming body`, 504)
+          : error instanceof Error ? error : new Error(String(error)))
+        return
+      } finally {
+        clearTimeout(idleTimer)
+      }
+
+      if (result.done) {
+        callbacks.onComplete?.(received, captured ? concatChunks(captured, received) : undefined)
+        streamController.close()
+        return
+      }
+
+      const chunk = result.value
+      received += chunk.byteLength
+      if (received > maxBodySize) {
+        controller.abort()
+        fail(streamController, new UpstreamError(`Upstream response too large: exceeds ${maxBodySize} bytes`, 502))
+        return
+      }
+
+      // 超过上限后放弃保留
+      if (captured && received <= callbacks.captureLimit!) {
+        captured.push(chunk)
+      } else {
+        captured = null
+      }
+      streamController.enqueue(chunk)
+    },
+    cancel(reason) {
+      clearTimeout(idleTimer)
+      return reader.cancel(reason)
+    }
+  })
+}
+
+/**
+ * 手动跟随重定向的上游请求，每一跳的目标都需通过 checkUrl 校验
+ * checkUrl 返回拒绝原因（允许时返回 null）；超过 maxRedirects 或目标被拒绝时抛出 UpstreamError(502)
+ */
+export async function fetchWithRedirects(
+  url: string,
+  init: RequestInit,
+  options: { timeout: number; maxRedirects: number; checkUrl: (url: URL) => string | null }
+): Promise<UpstreamFetch> {
+  let current = url
+
+  for (let redirects = 0; ; redirects++) {
+    const upstream = await fetchUpstream(current, { ...init, redirect: 'manual' }, options.timeout)
+    const { status, headers } = upstream.response
+    const location = headers.get('location')
+    upstream.origin = new URL(current).host
+
+    if (status < 300 || status >= 400 || status === 304 || !location) {
+      return upstream
+    }
+
+    discard(upstream)
+    if (redirects >= options.maxRedirects) {
+      throw new UpstreamError(`Too many redirects (max ${options.maxRedirects})`, 502)
+    }
+
+    const next = new URL(location, current)
+    const reason = options.checkUrl(next)
+    if (reason) {
+      throw new UpstreamError(`Redirect target not allowed: ${reason}`, 502)
+    }
+    current = next.toString()
+  }
+}
+
+// 上游请求目标：源标识（域名）与完整 URL
+export interface UpstreamTarget {
+  origin: string
+  url: string
+}
+
+// 重试选项
+export interface RetryOptions {
+  timeout: number     // 单次请求超时（毫秒）
+  retries: number     // 首次请求失败后的最大重试次数
+  baseDelay: number   // 退避基准时长（毫秒），第 n 次重试最多等待 baseDelay * 2^(n-1)
+  maxDelay: number    // 单次退避上限（毫秒）
+}
+
+export const DEFAULT_RETRY_OPTIONS: Omit<RetryOptions, 'timeout'> = {
+  retries: 2,
+  baseDelay: 100,
+  maxDelay: 1000
+}
+
+// 指数退避 + 全抖动
+function backoffDelay(attempt: number, options: RetryOptions): number {
+  const cap = Math.min(options.maxDelay, options.baseDelay * 2 ** (attempt - 1))
+  return Math.round(Math.random() * cap)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * 依次向多个上游源发起请求，对瞬时错误（5xx、网络错误、超时）退避后换源重试
+ * - 每个源有独立的熔断器，熔断中的源会被跳过
+ * - 非 5xx 响应（包括 404、304）视为源正常，直接返回
+ * - 重试次数用尽时返回最后一次 5xx 响应，或抛出最后一次的错误
+ * - 所有源都处于熔断状态时抛出 UpstreamError(503)
+ */
+export async function fetchWithFailover(
+  targets: UpstreamTarget[],
+  init: RequestInit,
+  options: RetryOptions
+): Promise<UpstreamFetch> {
+  let lastError: unknown = null
+  let lastResponse: UpstreamFetch | null = null
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    // 轮换上游源，跳过熔断中的源
+    let target: UpstreamTarget | undefined
+    for (let i = 0; i < targets.length; i++) {
+      const candidate = targets[(attempt + i) % targets.length]
+      if (getCircuitBreaker(candidate.origin).tryAcquire()) {
+        target = candidate
+        break
+      }
+    }
+
+    if (!target) {
+      if (lastResponse) return lastResponse
+      if (lastError) throw lastError
+      throw new UpstreamError('All upstream origins are unavailable', 503)
+    }
+
+    if (attempt > 0) {
+      await sleep(backoffDelay(attempt, options))
+    }
+
+    const breaker = getCircuitBreaker(target.origin)
+    try {
+      const upstream = await fetchUpstream(target.url, init, options.timeout)
+      upstream.origin = target.origin
+
+      if (upstream.response.status < 500) {
+        breaker.recordSuccess()
+        return upstream
+      }
+
+      breaker.recordFailure(`HTTP ${upstream.response.status}`)
+      // 丢弃上一次失败的响应，只保留最后一次
+      discard(lastResponse)
+      lastResponse = upstream
+      lastError = null
+    } catch (error) {
+      breaker.recordFailure(error instanceof Error ? error.message : 'Unknown error')
+      discard(lastResponse)
+      lastResponse = null
+      lastError = error
+    }
+  }
+
+  if (lastResponse) return lastResponse
+  if (lastError instanceof UpstreamError) throw lastError
+  throw new UpstreamError(`Upstream request failed: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`, 502)
+}
+
+// 释放不再使用的上游响应
+function discard(upstream: UpstreamFetch | null) {
+  if (!upstream) return
+  upstream.clearTimeout()
+  upstream.response.body?.cancel().catch(() => {})
+}
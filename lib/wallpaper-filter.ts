@@ -0,0 +1,244 @@
+// 壁纸列表的过滤与排序：颜色（最近匹配）、最低分辨率、宽高比、多来源，按评分/点赞/种子随机排序
+import type { WallpaperItem } from './wallpaper-utils'
+
+export type AspectFilter = 'landscape' | 'portrait' | 'ultrawide'
+export type WallpaperSort = 'rate' | 'like' | 'random'
+export type SortOrder = 'asc' | 'desc'
+
+export const ASPECT_FILTERS: AspectFilter[] = ['landscape', 'portrait', 'ultrawide']
+export const WALLPAPER_SORTS: WallpaperSort[] = ['rate', 'like', 'random']
+
+// 宽高比达到该值视为超宽屏（约 21:9）
+export const ULTRAWIDE_RATIO = 2.1
+
+// 颜色匹配默认容差（redmean 色差，取值 0~765）
+export const DEFAULT_COLOR_TOLERANCE = 100
+
+// 壁纸列表的过滤与排序选项
+export interface WallpaperListOptions {
+  sources?: string[]           // 来源（不区分大小写的子串匹配，满足任意一个即可）
+  color?: string               // 目标颜色（#rrggbb），保留调色板中有相近颜色的壁纸
+  colorTolerance?: number      // 颜色匹配容差
+  minWidth?: number            // 最小宽度（像素）
+  minHeight?: number           // 最小高度（像素）
+  aspect?: AspectFilter        // 宽高比：landscape 横屏（含超宽屏）、portrait 竖屏、ultrawide 超宽屏
+  sort?: WallpaperSort         // 排序方式，未指定时按颜色接近程度（指定 color 时）或原始顺序
+  order?: SortOrder            // rate/like 的排序方向，默认 desc
+  seed?: string                // 随机排序的种子，相同种子得到相同顺序（便于分页）
+}
+
+type RGB = [number, number, number]
+
+// 解析十六进制颜色（#rgb、#rrggbb，# 可省略）
+export function parseHexColor(value: string): RGB | null {
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (!match) return null
+
+  const hex = match[1].length === 3
+    ? match[1].split('').map(ch => ch + ch).join('')
+    : match[1]
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as RGB
+}
+
+// redmean 色差：计算量小，比直接的 RGB 欧氏距离更接近人眼感知
+export function colorDistance(a: RGB, b: RGB): number {
+  const rMean = (a[0] + b[0]) / 2
+  const dr = a[0] - b[0]
+  const dg = a[1] - b[1]
+  const db = a[2] - b[2]
+  return Math.sqrt((2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db)
+}
+
+// 壁纸调色板中与目标颜色最接近的色差，无可解析颜色时返回 Infinity
+function nearestColorDistance(item: WallpaperItem, target: RGB): number {
+  let nearest = Infinity
+  for (const color of item.colors || []) {
+    const rgb = parseHexColor(color)
+    if (rgb) nearest = Math.min(nearest, colorDistance(rgb, target))
+  }
+  return nearest
+}
+
+// 解析 dimensions（如 1920x1080、1920*1080、1920×1080）
+export function parseDimensions(dimensions: string | undefined): { width: number; height: number } | null {
+  const match = (dimensions || '').match(/(\d+)\s*[x×*]\s*(\d+)/i)
+  if (!match) return null
+
+  const width = parseInt(match[1], 10)
+  const height = parseInt(match[2], 10)
+  return width > 0 && height > 0 ? { width, height } : null
+}
+
+function matchesAspect(width: number, height: number, aspect: AspectFilter): boolean {
+  const ratio = width / height
+  switch (aspect) {
+    case 'landscape': return ratio > 1
+    case 'portrait': return ratio < 1
+    case 'ultrawide': return ratio >= ULTRAWIDE_RATIO
+  }
+}
+
+// 由字符串种子得到 32 位整数（FNV-1a）
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * 创建可复现的伪随机数生成器（mulberry32），返回 [0, 1) 的数
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = hashSeed(seed)
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// 按种子打乱数组（Fisher-Yates，返回新数组）
+export function seededShuffle<T>(items: T[], seed: string): T[] {
+  const random = createSeededRandom(seed)
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+// 生成随机种子（用于未指定 seed 的随机排序，随响应返回以便翻页）
+export function generateSeed(): string {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+/**
+ * 过滤并排序壁纸列表（不修改原数组）
+ */
+export function applyWallpaperOptions(items: WallpaperItem[], options: WallpaperListOptions): WallpaperItem[] {
+  const sources = (options.sources || []).map(source => source.toLowerCase())
+  const target = options.color ? parseHexColor(options.color) : null
+  const tolerance = options.colorTolerance ?? DEFAULT_COLOR_TOLERANCE
+  const needsDimensions = options.minWidth !== undefined || options.minHeight !== undefined || options.aspect !== undefined
+
+  // 颜色匹配时记录色差，用于按接近程度排序
+  const distances = new Map<WallpaperItem, number>()
+
+  let result = items.filter(item => {
+    if (sources.length > 0 && !sources.some(source => (item.source || '').toLowerCase().includes(source))) {
+      return false
+    }
+
+    if (needsDimensions) {
+      const size = parseDimensions(item.dimensions)
+      if (!size) return false
+      if (options.minWidth !== undefined && size.width < options.minWidth) return false
+      if (options.minHeight !== undefined && size.height < options.minHeight) return false
+      if (options.aspect && !matchesAspect(size.width, size.height, options.aspect)) return false
+    }
+
+    if (target) {
+      const distance = nearestColorDistance(item, target)
+      if (distance > tolerance) return false
+      distances.set(item, distance)
+    }
+
+    return true
+  })
+
+  const direction = options.order === 'asc' ? 1 : -1
+  switch (options.sort) {
+    case 'rate':
+    case 'like': {
+      const field = options.sort
+      result.sort((a, b) => direction * ((a[field] || 0) - (b[field] || 0)))
+      break
+    }
+    case 'random':
+      result = seededShuffle(result, options.seed || generateSeed())
+      break
+    default:
+      if (target) {
+        result.sort((a, b) => distances.get(a)! - distances.get(b)!)
+      }
+  }
+
+  return result
+}
+
+// 解析可选的非负整数参数
+function parseNonNegativeInt(value: string | undefined): number | undefined | null {
+  if (value === undefined || value.trim() === '') return undefined
+  if (!/^\d+$/.test(value.trim())) return null
+  return parseInt(value, 10)
+}
+
+/**
+ * 从查询参数解析过滤与排序选项
+ * 参数：source（逗号分隔多个）、color、colorTolerance、minWidth、minHeight、aspect、sort、order、seed
+ * 参数不合法时返回 error 与对应的参数名 field
+ */
+export function parseWallpaperListOptions(
+  query: Record<string, string | undefined>
+): { options: WallpaperListOptions; error?: undefined; field?: undefined } | { options?: undefined; error: string; field: string } {
+  const options: WallpaperListOptions = {}
+
+  const sources = (query.source || '').split(',').map(source => source.trim()).filter(Boolean)
+  if (sources.length > 0) options.sources = sources
+
+  if (query.color) {
+    if (!parseHexColor(query.color)) {
+      return { field: 'color', error: 'Invalid color, expected a hex value such as #1a2b3c' }
+    }
+    options.color = query.color
+  }
+
+  const tolerance = parseNonNegativeInt(query.colorTolerance)
+  if (tolerance === null || (tolerance !== undefined && tolerance > 765)) {
+    return { field: 'colorTolerance', error: 'Invalid colorTolerance, expected an integer between 0 and 765' }
+  }
+  if (tolerance !== undefined) options.colorTolerance = tolerance
+
+  for (const key of ['minWidth', 'minHeight'] as const) {
+    const value = parseNonNegativeInt(query[key])
+    if (value === null) {
+      return { field: key, error: `Invalid ${key}, expected a non-negative integer` }
+    }
+    if (value !== undefined) options[key] = value
+  }
+
+  if (query.aspect) {
+    if (!ASPECT_FILTERS.includes(query.aspect as AspectFilter)) {
+      return { field: 'aspect', error: `Invalid aspect, expected one of ${ASPECT_FILTERS.join(', ')}` }
+    }
+    options.aspect = query.aspect as AspectFilter
+  }
+
+  if (query.sort) {
+    if (!WALLPAPER_SORTS.includes(query.sort as WallpaperSort)) {
+      return { field: 'sort', error: `Invalid sort, expected one of ${WALLPAPER_SORTS.join(', ')}` }
+    }
+    options.sort = query.sort as WallpaperSort
+  }
+
+  if (query.order) {
+    if (query.order !== 'asc' && query.order !== 'desc') {
+      return { field: 'order', error: 'Invalid order, expected asc or desc' }
+    }
+    options.order = query.order
+  }
+
+  if (query.seed) {
+    if (query.seed.length > 64) {
+      return { field: 'seed', error: 'Invalid seed, expected at most 64 characters' }
+    }
+    options.seed = query.seed
+  }
+
+  return { options }
+}
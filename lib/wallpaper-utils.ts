@@ -1,8 +1,23 @@
+import { applyWallpaperOptions, generateSeed, createSeededRandom } from './wallpaper-filter'
+import type { WallpaperListOptions } from './wallpaper-filter'
+import { BING_MAX_COUNT, DEFAULT_BING_RESOLUTION, getBingArchiveStore, buildBingVariants } from './bing'
+import type { BingListOptions } from './bing'
+import { getUrlSigningConfig, getPublicBaseUrl, batchConvertUrls } from './proxy-utils'
+import type { ImageOptimization, ProxiedImageUrls } from './proxy-utils'
+import { computeVersion, hashQuery, encodeCursor, decodeCursor, shortHash } from './cursor'
+import { CatalogCache, getCatalogMaxStale } from './catalog-cache'
+import type { CatalogStatus } from './catalog-cache'
+import { getCatalogProviders, loadCatalogProviders } from './catalog-providers'
+import type { CatalogProviderReport } from './catalog-providers'
+import type { FieldError } from './schema'
+import { getConfig } from './config'
+import { getUpstreamFetch } from './upstream'
+
 // 壁纸数据接口定义
 export interface WallpaperItem {
   src: {
     rawSrc: string
-  }
+  } & ProxiedImageUrls  // 代理地址仅在接口响应中补充
   colors: string[]
   rate: number
   like: number
@@ -10,6 +25,7 @@ export interface WallpaperItem {
   imgId: string
   dimensions: string
   source: string
+  provider?: string  // 条目来自的数据源（见 CATALOG_SOURCES）
 }
 
 // Bing壁纸数据接口定义
@@ -29,6 +45,7 @@ export interface BingWallpaperItem {
   top: number
   bot: number
   hs: any[]
+  variants?: Record<string, string>  // 各分辨率经代理的图片地址（由 urlbase 生成）
 }
 
 // API响应接口定义
@@ -39,8 +56,27 @@ export interface WallpaperListResponse {
     total: number
     page: number
     totalPage: number
+    seed?: string              // 随机排序使用的种子，翻页时传回以保持顺序
+    version?: string           // 壁纸数据版本
+    nextCursor?: string | null // 下一页的游标，没有更多数据时为 null
+    catalog?: CatalogInfo      // 壁纸数据的新鲜度
   }
   message: string
+  errors?: FieldError[]        // 参数不合法时的字段错误
+}
+
+// 随机壁纸响应接口定义
+export interface RandomWallpaperResponse {
+  code: number
+  data: WallpaperItem | null
+  message: string
+}
+
+// 单张Bing壁纸响应接口定义
+export interface BingWallpaperDetailResponse {
+  code: number
+  data: BingWallpaperItem | null
+  message: string
 }
 
 // Bing壁纸响应接口定义
@@ -51,74 +87,136 @@ export interface BingWallpaperResponse {
     list: BingWallpaperItem[]
     total: number
     date: string
+    market: string
+    catalog?: CatalogInfo  // Bing数据的新鲜度
   }
   message: string
 }
 
-// 缓存数据以避免重复读取文件
-let cachedData: WallpaperItem[] | null = null
-let lastCacheTime: number = 0
-const CACHE_DURATION = 5 * 60 * 1000 // 5分钟缓存
+// 带版本号的壁纸数据
+export interface WallpaperCatalog {
+  version: string
+  items: WallpaperItem[]
+  reports: CatalogProviderReport[]  // 各数据源的加载结果
+}
+
+// 响应中展示的数据新鲜度
+export type CatalogInfo = Pick<CatalogStatus, 'freshness' | 'age' | 'fetchedAt'>
+
+// 保留最近几个版本的数据快照，游标翻页时数据更新也不会重复或遗漏
+// 快照仅在当前实例内有效，其他实例或已淘汰版本的游标按上一页最后一项在当前数据中继续翻页
+const catalogSnapshots = new Map<string, WallpaperItem[]>()
+const MAX_CATALOG_SNAPSHOTS = 3
 
-// Bing壁纸缓存
-let cachedBingData: BingWallpaperItem[] | null = null
-let lastBingCacheTime: number = 0
-const BING_CACHE_DURATION = 60 * 60 * 1000 // 1小时缓存（Bing数据更新较慢）
+// Bing壁纸缓存（按市场与 idx/n 分别缓存）
+const bingCache = new Map<string, CatalogCache<BingWallpaperItem[]>>()
+const BING_CACHE_MAX_ENTRIES = 100
 
 /**
- * 从JSON文件加载壁纸数据
+ * 从各数据源加载并合并壁纸数据，计算版本号（内容摘要）并保存快照
  */
-async function loadWallpaperData(): Promise<WallpaperItem[]> {
-  const now = Date.now()
-  
-  // 如果缓存有效，直接返回缓存数据
-  if (cachedData && (now - lastCacheTime) < CACHE_DURATION) {
-    return cachedData
-  }
-  
+async function fetchWallpaperCatalog(): Promise<WallpaperCatalog> {
   try {
-    const response = await fetch('https://wallpaper.xyu.fan/all.json')
-    if (!response.ok) {
-      throw new Error(`Failed to fetch data: ${response.status}`)
-    }
-    
-    const data = await response.json() as WallpaperItem[]
+    const { items: data, reports } = await loadCatalogProviders(getCatalogProviders())
+    const version = await computeVersion(JSON.stringify(data))
     
-    // 更新缓存
-    cachedData = data
-    lastCacheTime = now
+    // 保存快照，超出上限时淘汰最早的版本
+    catalogSnapshots.delete(version)
+    catalogSnapshots.set(version, data)
+    for (const key of catalogSnapshots.keys()) {
+      if (catalogSnapshots.size <= MAX_CATALOG_SNAPSHOTS) break
+      catalogSnapshots.delete(key)
+    }
     
-    return data
+    return { version, items: data, reports }
   } catch (error) {
     console.error('Error loading wallpaper data:', error)
     throw new Error('Failed to load wallpaper data')
   }
 }
 
+// 壁纸数据缓存：过期后先返回旧数据并在后台刷新，刷新失败时在 CATALOG_MAX_STALE 内继续使用旧数据
+let wallpaperCatalog: CatalogCache<WallpaperCatalog> | null = null
+
+// 首次使用时按当前配置创建缓存
+function getWallpaperCatalog(): CatalogCache<WallpaperCatalog> {
+  if (!wallpaperCatalog) {
+    wallpaperCatalog = new CatalogCache(fetchWallpaperCatalog, {
+      ttl: getConfig().catalog.ttl * 1000,  // CATALOG_CACHE_TTL，默认5分钟
+      maxStale: getCatalogMaxStale()
+    })
+  }
+  return wallpaperCatalog
+}
+
 /**
- * 获取Bing每日壁纸数据
+ * 加载壁纸数据及其版本号
  */
-async function loadBingWallpaperData(): Promise<BingWallpaperItem[]> {
-  const now = Date.now()
-  
-  // 如果缓存有效，直接返回缓存数据
-  if (cachedBingData && (now - lastBingCacheTime) < BING_CACHE_DURATION) {
-    return cachedBingData
+export function loadWallpaperCatalog(): Promise<WallpaperCatalog> {
+  return getWallpaperCatalog().get()
+}
+
+/**
+ * 从JSON文件加载壁纸数据
+ */
+async function loadWallpaperData(): Promise<WallpaperItem[]> {
+  return (await loadWallpaperCatalog()).items
+}
+
+// 壁纸数据的缓存状态
+export function getWallpaperCatalogStatus(): CatalogStatus {
+  return getWallpaperCatalog().getStatus()
+}
+
+// 最近一次成功加载时各数据源的结果（尚未加载时为空）
+export function getWallpaperCatalogReports(): CatalogProviderReport[] {
+  return getWallpaperCatalog().peek()?.reports || []
+}
+
+// Bing壁纸列表的版本号（由每张壁纸的 hsh/日期得出）
+export function getBingListVersion(items: BingWallpaperItem[]): string {
+  return shortHash(items.map(item => `${item.startdate}:${item.hsh || item.urlbase}`).join(','))
+}
+
+// 空列表响应（用于参数错误等情况），指定 field 时附带字段错误
+function emptyListResponse(code: number, message: string, field?: string): WallpaperListResponse {
+  return {
+    code,
+    data: {
+      list: [],
+      total: 0,
+      page: 1,
+      totalPage: 0
+    },
+    message,
+    ...(field ? { errors: [{ field, message }] } : {})
   }
-  
+}
+
+// 从缓存状态中取响应展示的字段
+function toCatalogInfo(status: CatalogStatus): CatalogInfo {
+  return { freshness: status.freshness, age: status.age, fetchedAt: status.fetchedAt }
+}
+
+/**
+ * 从Bing接口获取壁纸数据
+ * 获取到的壁纸同时写入归档，供按日期范围查询
+ */
+async function fetchBingWallpaperData(market: string, idx: number, n: number): Promise<BingWallpaperItem[]> {
   try {
     // 获取Bing壁纸API数据
-    const response = await fetch('https://www.bing.com/HPImageArchive.aspx?format=js&idx=0&n=8&mkt=en-US')
+    const params = new URLSearchParams({ format: 'js', idx: idx.toString(), n: n.toString(), mkt: market })
+    const response = await getUpstreamFetch()(`${getConfig().upstream.bingApiOrigin}/HPImageArchive.aspx?${params.toString()}`)
     if (!response.ok) {
       throw new Error(`Failed to fetch Bing data: ${response.status}`)
     }
     
     const data = await response.json()
-    const images = data.images || []
+    const images: BingWallpaperItem[] = data.images || []
     
-    // 更新缓存
-    cachedBingData = images
-    lastBingCacheTime = now
+    // 写入归档，失败不影响本次请求
+    await getBingArchiveStore().save(market, images)
+      .catch(error => console.error('Error saving Bing archive:', error))
     
     return images
   } catch (error) {
@@ -127,74 +225,227 @@ async function loadBingWallpaperData(): Promise<BingWallpaperItem[]> {
   }
 }
 
+// 获取（或创建）Bing 数据缓存，超出上限时淘汰最早创建的条目
+function getCachedBingCatalog(cacheKey: string, load: () => Promise<BingWallpaperItem[]>): CatalogCache<BingWallpaperItem[]> {
+  let catalog = bingCache.get(cacheKey)
+  
+  if (!catalog) {
+    catalog = new CatalogCache(load, {
+      ttl: getConfig().catalog.bingTtl * 1000,  // BING_CACHE_TTL，默认1小时（Bing数据更新较慢）
+      maxStale: getCatalogMaxStale()
+    })
+    bingCache.set(cacheKey, catalog)
+    for (const key of bingCache.keys()) {
+      if (bingCache.size <= BING_CACHE_MAX_ENTRIES) break
+      bingCache.delete(key)
+    }
+  }
+  return catalog
+}
+
+// 市场与 idx/n 对应的缓存
+function getBingCatalog(market: string, idx: number, n: number): CatalogCache<BingWallpaperItem[]> {
+  return getCachedBingCatalog(`${market}:${idx}:${n}`, () => fetchBingWallpaperData(market, idx, n))
+}
+
+// 归档按日期范围查询的缓存，避免每个请求都读取归档
+function getBingArchiveCatalog(market: string, from: string, to: string): CatalogCache<BingWallpaperItem[]> {
+  return getCachedBingCatalog(`archive:${market}:${from}:${to}`, async () => {
+    // 先获取最近 8 天以补全归档，Bing 不可用时仍返回已归档的数据
+    await loadBingWallpaperData(market).catch(() => null)
+    return getBingArchiveStore().query(market, from, to)
+  })
+}
+
+/**
+ * 获取Bing每日壁纸数据（缓存策略同壁纸数据）
+ * @param market 市场代码（如 en-US、zh-CN）
+ * @param idx 起始偏移（0为今天）
+ * @param n 数量
+ */
+function loadBingWallpaperData(
+  market: string = getConfig().bing.defaultMarket,
+  idx: number = 0,
+  n: number = BING_MAX_COUNT
+): Promise<BingWallpaperItem[]> {
+  return getBingCatalog(market, idx, n).get()
+}
+
+// 某个市场最近 8 天数据（单张壁纸接口与归档查询使用）的缓存状态
+export function getBingMarketStatus(market: string): CatalogStatus {
+  return getBingCatalog(market, 0, BING_MAX_COUNT).getStatus()
+}
+
+/**
+ * Bing壁纸数据的缓存状态
+ * 指定市场时只返回该市场的 idx/n 组合，键为 market:idx:n
+ */
+export function getBingCatalogStatus(market?: string): Record<string, CatalogStatus> {
+  const result: Record<string, CatalogStatus> = {}
+  for (const [key, catalog] of bingCache) {
+    if (!market || key.startsWith(`${market}:`)) {
+      result[key] = catalog.getStatus()
+    }
+  }
+  return result
+}
+
 /**
  * 获取壁纸列表
+ * 传入 cursor 时按游标翻页（忽略 page）：游标绑定数据版本与查询条件，数据更新后仍按原版本的快照返回
+ * 快照不可用（其他实例生成的游标，或版本已淘汰）时从当前数据中上一页最后一项之后继续；
+ * 随机排序的顺序随数据变化，或最后一项已不存在时无法续接，返回 410
  * @param page 页码（从1开始）
- * @param source 来源过滤（可选）
+ * @param options 过滤与排序选项（来源、颜色、分辨率、宽高比、排序）
  * @param pageSize 每页数量
+ * @param baseUrl 代理服务的根地址，用于生成 proxyUrl/thumbnailUrl
+ * @param optimization 图片优化参数，传入时额外生成 optimizedUrl
+ * @param cursor 上一页响应中的 nextCursor
  */
 export async function getWallpaperList(
   page: string | undefined,
-  source: string | undefined,
-  pageSize: number = 20
+  options: WallpaperListOptions = {},
+  pageSize: number = 20,
+  baseUrl: string = getPublicBaseUrl(),
+  optimization: ImageOptimization | null = null,
+  cursor?: string
 ): Promise<WallpaperListResponse> {
   try {
     // 加载数据
-    const allData = await loadWallpaperData()
+    let { version, items: allData } = await loadWallpaperCatalog()
+    let seed = options.sort === 'random' ? options.seed : undefined
+    let startIndex = 0
+    let anchor: string | undefined
     
-    // 过滤数据（如果指定了source）
-    let filteredData = allData
-    if (source && source.trim() !== '') {
-      filteredData = allData.filter(item => 
-        item.source.toLowerCase().includes(source.toLowerCase())
-      )
+    const payload = cursor ? decodeCursor(cursor) : null
+    if (cursor && !payload) {
+      return emptyListResponse(400, 'Invalid cursor', 'cursor')
     }
     
-    // 解析页码
-    const currentPage = parseInt(page || '1', 10)
-    if (isNaN(currentPage) || currentPage < 1) {
-      return {
-        code: 400,
-        data: {
-          list: [],
-          total: 0,
-          page: 1,
-          totalPage: 0
-        },
-        message: 'Invalid page number'
+    if (payload) {
+      const snapshot = catalogSnapshots.get(payload.v)
+      if (snapshot) {
+        version = payload.v
+        allData = snapshot
+        startIndex = payload.o
+      } else if (options.sort === 'random' || !payload.k) {
+        return emptyListResponse(410, 'Cursor expired, please restart from the first page')
+      } else {
+        // 在当前数据中定位上一页的最后一项（过滤排序后确定起始位置）
+        anchor = payload.k
       }
+      if (options.sort === 'random' && !seed) seed = payload.s
+    } else {
+      // 解析页码
+      const currentPage = parseInt(page || '1', 10)
+      if (isNaN(currentPage) || currentPage < 1) {
+        return emptyListResponse(400, 'Invalid page number', 'page')
+      }
+      startIndex = (currentPage - 1) * pageSize
+    }
+    
+    // 随机排序未指定种子时生成一个，随响应返回
+    if (options.sort === 'random' && !seed) seed = generateSeed()
+    
+    // 游标只能用于生成它的查询条件
+    const queryHash = hashQuery({ ...options, seed })
+    if (payload && payload.q !== queryHash) {
+      return emptyListResponse(400, 'Cursor does not match the query', 'cursor')
+    }
+    
+    // 过滤并排序
+    const filteredData = applyWallpaperOptions(allData, { ...options, seed })
+    
+    if (anchor) {
+      const anchorIndex = filteredData.findIndex(item => item._id === anchor)
+      if (anchorIndex < 0) {
+        return emptyListResponse(410, 'Cursor expired, please restart from the first page')
+      }
+      startIndex = anchorIndex + 1
     }
     
     // 计算分页
     const total = filteredData.length
     const totalPage = Math.ceil(total / pageSize)
-    const startIndex = (currentPage - 1) * pageSize
-    const endIndex = startIndex + pageSize
+    const endIndex = Math.min(startIndex + pageSize, total)
     
-    // 获取当前页数据
-    const list = filteredData.slice(startIndex, endIndex)
+    // 获取当前页数据，并补充代理地址
+    const signing = getUrlSigningConfig() || undefined
+    const list = await batchConvertUrls(filteredData.slice(startIndex, endIndex), baseUrl, signing, optimization)
+    const nextCursor = endIndex < total
+      ? encodeCursor({ v: version, o: endIndex, q: queryHash, k: filteredData[endIndex - 1]._id, ...(seed ? { s: seed } : {}) })
+      : null
     
     return {
       code: 200,
       data: {
         list,
         total,
-        page: currentPage,
-        totalPage
+        page: Math.floor(startIndex / pageSize) + 1,
+        totalPage,
+        ...(seed ? { seed } : {}),
+        version,
+        nextCursor,
+        catalog: toCatalogInfo(getWallpaperCatalogStatus())
       },
       message: 'Success'
     }
     
   } catch (error) {
     console.error('Error in getWallpaperList:', error)
+    return emptyListResponse(500, 'Internal server error')
+  }
+}
+
+/**
+ * 随机获取一张壁纸
+ * @param options 过滤选项（排序参数会被忽略），指定 seed 时结果可复现
+ * @param exclude 需要避开的壁纸 _id（如会话最近返回过的），全部被排除时仍会返回结果
+ * @param baseUrl 代理服务的根地址，用于生成代理地址
+ * @param optimization 图片优化参数，传入时额外生成 optimizedUrl
+ */
+export async function getRandomWallpaper(
+  options: WallpaperListOptions = {},
+  exclude: string[] = [],
+  baseUrl: string = getPublicBaseUrl(),
+  optimization: ImageOptimization | null = null
+): Promise<RandomWallpaperResponse> {
+  try {
+    const allData = await loadWallpaperData()
+    const candidates = applyWallpaperOptions(allData, { ...options, sort: undefined })
+    
+    if (candidates.length === 0) {
+      return {
+        code: 404,
+        data: null,
+        message: 'No wallpaper matches the filters'
+      }
+    }
+    
+    // 优先从未返回过的壁纸中选择；都返回过时只避开最近返回的一半
+    let excluded = new Set(exclude)
+    let pool = candidates.filter(item => !excluded.has(item._id))
+    if (pool.length === 0) {
+      const keep = Math.floor(candidates.length / 2)
+      excluded = new Set(keep > 0 ? exclude.slice(-keep) : [])
+      pool = candidates.filter(item => !excluded.has(item._id))
+    }
+    
+    const random = options.seed ? createSeededRandom(options.seed) : Math.random
+    const item = pool[Math.floor(random() * pool.length)]
+    const [data] = await batchConvertUrls([item], baseUrl, getUrlSigningConfig() || undefined, optimization)
+    
+    return {
+      code: 200,
+      data,
+      message: 'Success'
+    }
+    
+  } catch (error) {
+    console.error('Error in getRandomWallpaper:', error)
     return {
       code: 500,
-      data: {
-        list: [],
-        total: 0,
-        page: 1,
-        totalPage: 0
-      },
+      data: null,
       message: 'Internal server error'
     }
   }
@@ -202,18 +453,39 @@ export async function getWallpaperList(
 
 /**
  * 获取Bing每日壁纸列表
+ * 指定 from/to 时从归档按日期范围查询（可超出 Bing 接口的 8 天范围），否则实时获取
+ * @param options 市场、偏移、数量与日期范围
+ * @param baseUrl 代理服务的根地址，用于生成各分辨率经代理的图片地址（variants）
  */
-export async function getBingWallpaperList(): Promise<BingWallpaperResponse> {
+export async function getBingWallpaperList(
+  options: BingListOptions = { market: getConfig().bing.defaultMarket, idx: 0, n: BING_MAX_COUNT },
+  baseUrl: string = getPublicBaseUrl()
+): Promise<BingWallpaperResponse> {
   try {
-    const bingData = await loadBingWallpaperData()
+    let bingData: BingWallpaperItem[]
+    let status: CatalogStatus
+    
+    if (options.from && options.to) {
+      bingData = await getBingArchiveCatalog(options.market, options.from, options.to).get()
+      status = getBingMarketStatus(options.market)
+    } else {
+      bingData = await loadBingWallpaperData(options.market, options.idx, options.n)
+      status = getBingCatalog(options.market, options.idx, options.n).getStatus()
+    }
+    
+    // 补充各分辨率经代理的图片地址
+    const signing = getUrlSigningConfig() || undefined
+    const list = await Promise.all(bingData.map(async item => ({ ...item, variants: await buildBingVariants(item.urlbase, baseUrl, signing) })))
     
     return {
       code: 200,
       data: {
-        url: `https://www.bing.com${bingData[0].url}`,
-        list: bingData,
-        total: bingData.length,
-        date: new Date().toISOString()
+        url: list[0]?.variants[DEFAULT_BING_RESOLUTION] || '',  // 最新一张的默认分辨率，经代理
+        list,
+        total: list.length,
+        date: new Date().toISOString(),
+        market: options.market,
+        catalog: toCatalogInfo(status)
       },
       message: 'Success'
     }
@@ -226,13 +498,62 @@ export async function getBingWallpaperList(): Promise<BingWallpaperResponse> {
         url: '',
         list: [],
         total: 0,
-        date: new Date().toISOString()
+        date: new Date().toISOString(),
+        market: options.market
       },
       message: 'Internal server error'
     }
   }
 }
 
+/**
+ * 获取指定市场某一天的Bing壁纸
+ * @param market 市场代码
+ * @param date 日期（yyyymmdd），未指定时为当天（Bing 最新一张）；历史日期从归档查询
+ * @param baseUrl 代理服务的根地址，用于生成 variants
+ */
+export async function getBingWallpaper(
+  market: string = getConfig().bing.defaultMarket,
+  date?: string,
+  baseUrl: string = getPublicBaseUrl()
+): Promise<BingWallpaperDetailResponse> {
+  try {
+    let item: BingWallpaperItem | undefined
+    
+    if (!date) {
+      const images = await loadBingWallpaperData(market)
+      item = images[0]
+    } else {
+      // 先获取最近 8 天以补全归档
+      await loadBingWallpaperData(market).catch(() => null)
+      const items = await getBingArchiveStore().query(market, date, date)
+      item = items[0]
+    }
+    
+    if (!item) {
+      return {
+        code: 404,
+        data: null,
+        message: 'Bing wallpaper not found'
+      }
+    }
+    
+    return {
+      code: 200,
+      data: { ...item, variants: await buildBingVariants(item.urlbase, baseUrl, getUrlSigningConfig() || undefined) },
+      message: 'Success'
+    }
+    
+  } catch (error) {
+    console.error('Error in getBingWallpaper:', error)
+    return {
+      code: 500,
+      data: null,
+      message: 'Internal server error'
+    }
+  }
+}
+
 /**
  * 获取可用的来源列表
  */
@@ -0,0 +1,5 @@
+// 边缘运行时以 `?module` 后缀导入预编译的 WASM 模块
+declare module '*.wasm?module' {
+  const module: WebAssembly.Module
+  export default module
+}
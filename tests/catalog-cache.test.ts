@@ -0,0 +1,37 @@
+// 数据目录缓存：过期后后台刷新，刷新失败后在退避期内不再重试
+import { describe, it, expect } from 'vitest'
+import { CatalogCache, getPendingCatalogRefreshes } from '../lib/catalog-cache'
+
+async function settleRefreshes() {
+  await Promise.allSettled(getPendingCatalogRefreshes())
+}
+
+describe('CatalogCache', () => {
+  it('backs off background refreshes after a failure', async () => {
+    let calls = 0
+    let fail = false
+    const cache = new CatalogCache(async () => {
+      calls++
+      if (fail) throw new Error('upstream down')
+      return calls
+    }, { ttl: 0, maxStale: 60 * 1000, refreshBackoff: 1000 })
+
+    expect(await cache.get()).toBe(1)
+    fail = true
+
+    // 第一次过期访问触发后台刷新并失败
+    expect(await cache.get()).toBe(1)
+    await settleRefreshes()
+    expect(calls).toBe(2)
+
+    // 退避期内继续返回旧数据，不再刷新
+    expect(await cache.get()).toBe(1)
+    await settleRefreshes()
+    expect(calls).toBe(2)
+
+    // 退避期结束后重新尝试
+    expect(await cache.get(Date.now() + 1000)).toBe(1)
+    await settleRefreshes()
+    expect(calls).toBe(3)
+  })
+})
@@ -0,0 +1,44 @@
+// 壁纸数据源：本地文件作为部署中的静态文件读取，不依赖 Node.js 文件系统
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { parseCatalogSources } from '../lib/catalog-providers'
+import { loadConfig, ConfigError } from '../lib/config'
+import { setUpstreamFetch } from '../lib/upstream'
+import { createFixtureFetch, jsonResponse } from './fixtures'
+import type { FixtureFetch } from './fixtures'
+
+const CURATED = [{ _id: 'c1', src: { rawSrc: 'https://example.com/c1.jpg' }, source: 'Ocean' }]
+
+describe('local catalog files', () => {
+  let upstream: FixtureFetch
+  const globals = globalThis as { EdgeRuntime?: string }
+
+  beforeEach(() => {
+    upstream = createFixtureFetch()
+    setUpstreamFetch(upstream.fetch)
+    // 与 Vercel Edge（含 vercel dev）相同，运行时定义了全局变量 EdgeRuntime
+    globals.EdgeRuntime = 'edge-runtime'
+  })
+
+  afterEach(() => {
+    setUpstreamFetch(null)
+    delete globals.EdgeRuntime
+  })
+
+  it('loads file sources as static assets under the edge runtime', async () => {
+    upstream.on('http://localhost:3000/catalog/curated.json', jsonResponse(CURATED))
+
+    const [provider] = parseCatalogSources('Curated=file:./public/catalog/curated.json', 'http://localhost:3000')
+
+    expect(provider.name).toBe('file:./public/catalog/curated.json')
+    expect(provider.source).toBe('Curated')
+    expect(await provider.load()).toEqual(CURATED)
+  })
+
+  it('requires PROXY_PUBLIC_BASE_URL for file sources', () => {
+    expect(() => loadConfig({ CATALOG_SOURCES: 'file:catalog/curated.json' })).toThrow(ConfigError)
+    expect(loadConfig({
+      CATALOG_SOURCES: 'file:catalog/curated.json',
+      PROXY_PUBLIC_BASE_URL: 'http://localhost:3000'
+    }).catalog.sources).toBe('file:catalog/curated.json')
+  })
+})
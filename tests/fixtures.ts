@@ -0,0 +1,100 @@
+// 测试用的上游替身：按地址返回预设响应，并记录收到的请求
+import { readFile } from 'node:fs/promises'
+import { PhotonImage } from '@cf-wasm/photon'
+import { initImageEncoder } from '../lib/image-transform'
+import type { FetchFunction } from '../lib/upstream'
+
+// 收到的一次上游请求
+export interface RecordedRequest {
+  url: string
+  method: string
+  headers: Headers
+  body?: string
+  signal?: AbortSignal
+}
+
+// 按请求生成响应，返回 null 表示未匹配
+type FixtureHandler = (request: RecordedRequest) => Response | null | Promise<Response | null>
+
+export interface FixtureFetch {
+  fetch: FetchFunction
+  requests: RecordedRequest[]
+  // 注册响应，match 为地址前缀或匹配函数；后注册的优先
+  on(match: string | ((url: string) => boolean), respond: Response | FixtureHandler): void
+}
+
+/**
+ * 创建上游替身，配合 setUpstreamFetch 使用
+ * 未匹配的地址返回 404，不会访问真实网络
+ */
+export function createFixtureFetch(): FixtureFetch {
+  const handlers: FixtureHandler[] = []
+  const requests: RecordedRequest[] = []
+
+  return {
+    requests,
+
+    on(match, respond) {
+      const matches = typeof match === 'string' ? (url: string) => url.startsWith(match) : match
+      handlers.unshift(request => {
+        if (!matches(request.url)) return null
+        // 同一响应体只能读取一次，每次返回副本
+        return respond instanceof Response ? respond.clone() : respond(request)
+      })
+    },
+
+    async fetch(input, init = {}) {
+      const request: RecordedRequest = {
+        url: input,
+        method: init.method || 'GET',
+        headers: new Headers(init.headers),
+        body: typeof init.body === 'string' ? init.body : undefined,
+        signal: init.signal || undefined
+      }
+      requests.push(request)
+
+      for (const handler of handlers) {
+        const response = await handler(request)
+        if (response) return response
+      }
+      return new Response('Not Found', { status: 404 })
+    }
+  }
+}
+
+// 最小的 JPEG 文件头，足以通过格式识别
+export const JPEG_BYTES = new Uint8Array([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0xff, 0xd9])
+
+export function imageResponse(bytes: Uint8Array = JPEG_BYTES, headers: Record<string, string> = {}): Response {
+  return new Response(bytes as BodyInit, {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/jpeg',
+      'Content-Length': bytes.byteLength.toString(),
+      ...headers
+    }
+  })
+}
+
+export function jsonResponse(data: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  })
+}
+
+// 可解码的纯色 JPEG，用于图片转换测试
+export function createTestJpeg(width: number = 64, height: number = 48): Uint8Array {
+  const image = new PhotonImage(new Uint8Array(width * height * 4).fill(200), width, height)
+  try {
+    return image.get_bytes_jpeg(90)
+  } finally {
+    image.free()
+  }
+}
+
+// 与 api/index.ts 相同地初始化有损 WebP 编码器（入口以 ?module 导入，测试中从依赖包读取）
+export async function initTestWebpEncoder(): Promise<boolean> {
+  const wasm = await readFile(new URL('../node_modules/@jsquash/webp/codec/enc/webp_enc_simd.wasm', import.meta.url))
+  return initImageEncoder('webp', await WebAssembly.compile(wasm))
+}
@@ -0,0 +1,599 @@
+// 图片代理路由：通过 app.request() 调用，上游由 setUpstreamFetch 替换为本地替身
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest'
+import { Hono } from 'hono'
+import { PhotonImage } from '@cf-wasm/photon'
+import { createProxyRouter, createGenericProxyApp, createProxyApp } from '../lib/proxy-handler'
+import {
+  getProxySources,
+  getProxySource,
+  signProxyUrl,
+  verifyProxyUrl,
+  convertToProxyUrl,
+  convertToProxyUrlSigned,
+  buildOptimizedUrlSigned
+} from '../lib/proxy-utils'
+import { MemoryImageCache, KVImageCache, LocalKVStore } from '../lib/image-cache'
+import { resetCircuitBreakers } from '../lib/circuit-breaker'
+import { setUpstreamFetch } from '../lib/upstream'
+import { getConfig, setConfig } from '../lib/config'
+import { createFixtureFetch, imageResponse, createTestJpeg, initTestWebpEncoder, JPEG_BYTES } from './fixtures'
+import type { FixtureFetch } from './fixtures'
+
+const UPSTREAM = `https://${getConfig().upstream.infinityDomain}`
+
+// 与 api/index.ts 相同的图片路由（入口文件依赖 WASM 模块导入，测试中单独组装）
+function createApp() {
+  const options = { cache: new MemoryImageCache() }
+  const app = new Hono()
+  app.route('/', createProxyRouter(getProxySources(), options))
+  app.route('/', createGenericProxyApp(options))
+  return app
+}
+
+describe('image proxy', () => {
+  let upstream: FixtureFetch
+  let app: Hono
+
+  beforeEach(() => {
+    upstream = createFixtureFetch()
+    setUpstreamFetch(upstream.fetch)
+    resetCircuitBreakers()
+    app = createApp()
+  })
+
+  afterEach(() => {
+    setUpstreamFetch(null)
+  })
+
+  it('streams the upstream image', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse(JPEG_BYTES, { ETag: '"v1"' }))
+
+    const res = await app.request('/api/wallpaper/ocean/1.jpg')
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('image/jpeg')
+    expect(res.headers.get('etag')).toBe('"v1"')
+    expect(res.headers.get('x-cache-status')).toBe('miss')
+    expect(res.headers.get('x-original-url')).toBe(`${UPSTREAM}/wallpaper/ocean/1.jpg`)
+    expect(res.headers.get('x-content-type-options')).toBe('nosniff')
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(JPEG_BYTES)
+
+    expect(upstream.requests).toHaveLength(1)
+    expect(upstream.requests[0].headers.get('referer')).toBe('https://infinitynewtab.com/')
+  })
+
+  it('passes conditional requests through and returns 304', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, request =>
+      request.headers.get('if-none-match') === '"v1"'
+        ? new Response(null, { status: 304 })
+        : imageResponse()
+    )
+
+    const res = await app.request('/api/wallpaper/ocean/1.jpg', {
+      headers: { 'If-None-Match': '"v1"' }
+    })
+
+    expect(res.status).toBe(304)
+    expect(res.headers.get('x-cache-status')).toBe('not-modified')
+    expect(await res.text()).toBe('')
+  })
+
+  it('sends CORS and Vary headers on 304 responses', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, new Response(null, { status: 304, headers: { ETag: '"v1"' } }))
+    const source = { ...getProxySource('wallpaper')!, accessPolicy: { allowedOrigins: ['https://app.example.com'] } }
+    const restricted = createProxyApp(source, { cache: new MemoryImageCache() })
+
+    const res = await restricted.request('/api/wallpaper/ocean/1.jpg', {
+      headers: { 'If-None-Match': '"v1"', 'Origin': 'https://app.example.com' }
+    })
+
+    expect(res.status).toBe(304)
+    expect(res.headers.get('etag')).toBe('"v1"')
+    expect(res.headers.get('access-control-allow-origin')).toBe('https://app.example.com')
+    expect(res.headers.get('vary')).toBe('Origin')
+  })
+
+  describe('format negotiation', () => {
+    beforeAll(async () => {
+      expect(await initTestWebpEncoder()).toBe(true)
+    })
+
+    it('passes plain requests through without Vary: Accept', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+
+      const res = await app.request('/api/wallpaper/ocean/1.jpg', { headers: { Accept: 'image/webp,*/*' } })
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('content-type')).toBe('image/jpeg')
+      expect(res.headers.get('vary')).toBeNull()
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(JPEG_BYTES)
+    })
+
+    it('negotiates the format of transformed images and varies on Accept', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse(createTestJpeg()))
+
+      const webp = await app.request('/api/wallpaper/ocean/1.jpg?w=32', { headers: { Accept: 'image/webp,*/*' } })
+      const jpeg = await app.request('/api/wallpaper/ocean/1.jpg?w=32', { headers: { Accept: 'image/jpeg' } })
+
+      expect(webp.headers.get('content-type')).toBe('image/webp')
+      expect(webp.headers.get('vary')).toBe('Accept')
+      expect(jpeg.headers.get('content-type')).toBe('image/jpeg')
+      expect(jpeg.headers.get('vary')).toBe('Accept')
+    })
+  })
+
+  describe('caching', () => {
+    it('serves repeated requests from the memory cache', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse(JPEG_BYTES, { ETag: '"v1"' }))
+
+      await (await app.request('/api/wallpaper/ocean/1.jpg')).arrayBuffer()
+      const res = await app.request('/api/wallpaper/ocean/1.jpg')
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('x-cache-status')).toBe('hit')
+      expect(res.headers.get('content-type')).toBe('image/jpeg')
+      expect(res.headers.get('etag')).toBe('"v1"')
+      expect(res.headers.get('x-upstream')).toBe(new URL(UPSTREAM).host)
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(JPEG_BYTES)
+      expect(upstream.requests).toHaveLength(1)
+    })
+
+    it('serves repeated requests from a KV cache', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+      const kvApp = createProxyApp(getProxySource('wallpaper')!, { cache: new KVImageCache(new LocalKVStore()) })
+
+      await (await kvApp.request('/api/wallpaper/ocean/1.jpg')).arrayBuffer()
+      const res = await kvApp.request('/api/wallpaper/ocean/1.jpg')
+
+      expect(res.headers.get('x-cache-status')).toBe('hit')
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(JPEG_BYTES)
+      expect(upstream.requests).toHaveLength(1)
+    })
+
+    it('serves expired entries as stale and refreshes them in the background', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+      const source = { ...getProxySource('wallpaper')!, cacheTtl: 0, cacheStaleTtl: 60 }
+      const staleApp = createProxyApp(source, { cache: new MemoryImageCache() })
+
+      await (await staleApp.request('/api/wallpaper/ocean/1.jpg')).arrayBuffer()
+      const res = await staleApp.request('/api/wallpaper/ocean/1.jpg')
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('x-cache-status')).toBe('stale')
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(JPEG_BYTES)
+      await vi.waitFor(() => expect(upstream.requests).toHaveLength(2))
+    })
+  })
+
+  describe('image transforms', () => {
+    beforeAll(async () => {
+      expect(await initTestWebpEncoder()).toBe(true)
+    })
+
+    beforeEach(() => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse(createTestJpeg(64, 48)))
+    })
+
+    it('resizes the image and keeps the original format', async () => {
+      const res = await app.request('/api/wallpaper/ocean/1.jpg?w=32')
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('content-type')).toBe('image/jpeg')
+      const image = PhotonImage.new_from_byteslice(new Uint8Array(await res.arrayBuffer()))
+      expect([image.get_width(), image.get_height()]).toEqual([32, 24])
+      image.free()
+    })
+
+    it('encodes the requested output format', async () => {
+      const png = await app.request('/api/wallpaper/ocean/1.jpg?w=16&f=png')
+      const webp = await app.request('/api/wallpaper/ocean/1.jpg?w=16&f=webp')
+
+      expect(png.headers.get('content-type')).toBe('image/png')
+      expect(new Uint8Array(await png.arrayBuffer()).subarray(1, 4)).toEqual(new TextEncoder().encode('PNG'))
+      expect(webp.headers.get('content-type')).toBe('image/webp')
+      const bytes = new Uint8Array(await webp.arrayBuffer())
+      expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe('RIFF')
+      expect(new TextDecoder().decode(bytes.subarray(8, 12))).toBe('WEBP')
+    })
+
+    it('caches the transformed representation separately from the original', async () => {
+      await (await app.request('/api/wallpaper/ocean/1.jpg?w=32')).arrayBuffer()
+      const original = await app.request('/api/wallpaper/ocean/1.jpg')
+      const resized = await app.request('/api/wallpaper/ocean/1.jpg?w=32')
+
+      expect(original.headers.get('x-cache-status')).toBe('miss')
+      expect(resized.headers.get('x-cache-status')).toBe('hit')
+      expect(resized.headers.get('content-type')).toBe('image/jpeg')
+    })
+  })
+
+  it('returns 404 when the upstream image does not exist', async () => {
+    const res = await app.request('/api/wallpaper/ocean/missing.jpg')
+
+    expect(res.status).toBe(404)
+    expect(await res.json()).toMatchObject({ error: 'Image not found', status: 404 })
+    // 404 不重试
+    expect(upstream.requests).toHaveLength(1)
+  })
+
+  it('retries upstream 5xx and then returns 502', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/`, new Response('error', { status: 500 }))
+
+    const res = await app.request('/api/wallpaper/ocean/1.jpg')
+
+    expect(res.status).toBe(502)
+    expect(await res.json()).toMatchObject({ error: 'Upstream unavailable', status: 500 })
+    expect(upstream.requests.length).toBeGreaterThan(1)
+  })
+
+  it('aborts the upstream when the streamed body stalls', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/`, request => {
+      // 发送足够识别格式的开头部分后不再发送数据，直到请求被中止
+      const head = new Uint8Array(128)
+      head.set(JPEG_BYTES)
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(head)
+          request.signal?.addEventListener('abort', () => controller.error(new DOMException('Aborted', 'AbortError')))
+        }
+      })
+      return new Response(body, { headers: { 'Content-Type': 'image/jpeg' } })
+    })
+    const source = { ...getProxySource('wallpaper')!, timeout: 50 }
+    const stalling = createProxyApp(source, { cache: new MemoryImageCache() })
+
+    const res = await stalling.request('/api/wallpaper/ocean/1.jpg')
+
+    expect(res.status).toBe(200)
+    await expect(res.arrayBuffer()).rejects.toThrow()
+    expect(upstream.requests[0].signal?.aborted).toBe(true)
+  })
+
+  it('rejects upstream responses that are not images', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/`, new Response('<html></html>', {
+      headers: { 'Content-Type': 'text/html' }
+    }))
+
+    const res = await app.request('/api/wallpaper/ocean/1.jpg')
+
+    expect(res.status).toBe(502)
+    expect(await res.json()).toMatchObject({ error: 'Upstream returned non-image content' })
+  })
+
+  describe('HEAD and Range requests', () => {
+    it('answers HEAD with headers only and asks the upstream for headers only', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+
+      const res = await app.request('/api/wallpaper/ocean/1.jpg', { method: 'HEAD' })
+
+      expect(res.status).toBe(200)
+      expect(res.headers.get('content-type')).toBe('image/jpeg')
+      expect(res.headers.get('accept-ranges')).toBe('bytes')
+      expect(res.body).toBeNull()
+      expect(upstream.requests[0].method).toBe('HEAD')
+    })
+
+    it('forwards the range to the upstream and passes its 206 through', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, request => {
+        expect(request.headers.get('range')).toBe('bytes=0-3')
+        return new Response(JPEG_BYTES.slice(0, 4), {
+          status: 206,
+          headers: { 'Content-Type': 'image/jpeg', 'Content-Range': `bytes 0-3/${JPEG_BYTES.byteLength}` }
+        })
+      })
+
+      const res = await app.request('/api/wallpaper/ocean/1.jpg', { headers: { Range: 'bytes=0-3' } })
+
+      expect(res.status).toBe(206)
+      expect(res.headers.get('content-range')).toBe(`bytes 0-3/${JPEG_BYTES.byteLength}`)
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(JPEG_BYTES.slice(0, 4))
+    })
+
+    it('slices locally when the upstream ignores the range', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+
+      const res = await app.request('/api/wallpaper/ocean/1.jpg', { headers: { Range: 'bytes=-4' } })
+
+      expect(res.status).toBe(206)
+      expect(res.headers.get('content-range')).toBe(`bytes 10-13/${JPEG_BYTES.byteLength}`)
+      expect(res.headers.get('content-length')).toBe('4')
+      expect(new Uint8Array(await res.arrayBuffer())).toEqual(JPEG_BYTES.slice(10))
+    })
+
+    it('returns 416 for ranges past the end of the image', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+
+      const res = await app.request('/api/wallpaper/ocean/1.jpg', { headers: { Range: 'bytes=100-' } })
+
+      expect(res.status).toBe(416)
+      expect(res.headers.get('content-range')).toBe(`bytes */${JPEG_BYTES.byteLength}`)
+    })
+
+    it('serves ranges and HEAD from the cache', async () => {
+      upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+      await (await app.request('/api/wallpaper/ocean/1.jpg')).arrayBuffer()
+
+      const partial = await app.request('/api/wallpaper/ocean/1.jpg', { headers: { Range: 'bytes=2-5' } })
+      const unsatisfiable = await app.request('/api/wallpaper/ocean/1.jpg', { headers: { Range: 'bytes=100-' } })
+      const head = await app.request('/api/wallpaper/ocean/1.jpg', { method: 'HEAD' })
+
+      expect(partial.status).toBe(206)
+      expect(partial.headers.get('x-cache-status')).toBe('hit')
+      expect(partial.headers.get('content-range')).toBe(`bytes 2-5/${JPEG_BYTES.byteLength}`)
+      expect(new Uint8Array(await partial.arrayBuffer())).toEqual(JPEG_BYTES.slice(2, 6))
+      expect(unsatisfiable.status).toBe(416)
+      expect(head.status).toBe(200)
+      expect(head.headers.get('content-length')).toBe(JPEG_BYTES.byteLength.toString())
+      expect(head.body).toBeNull()
+      expect(upstream.requests).toHaveLength(1)
+    })
+  })
+
+  it('rejects paths without an image extension', async () => {
+    const res = await app.request('/api/wallpaper/ocean/readme.txt')
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'Invalid image URL', reason: 'Invalid image extension' })
+    expect(upstream.requests).toHaveLength(0)
+  })
+
+  it('rejects generic proxy targets without an image extension', async () => {
+    const url = encodeURIComponent(`${UPSTREAM}/wallpaper/ocean/readme.txt`)
+    const res = await app.request(`/api/proxy?url=${url}`)
+
+    expect(res.status).toBe(400)
+    expect(await res.json()).toMatchObject({ reason: 'Invalid image extension' })
+  })
+
+  it('returns field errors for invalid optimization parameters', async () => {
+    const res = await app.request('/api/wallpaper/ocean/1.jpg?w=abc')
+
+    expect(res.status).toBe(400)
+    const body = await res.json()
+    expect(body.errors).toEqual([{ field: 'w', message: expect.any(String) }])
+    expect(upstream.requests).toHaveLength(0)
+  })
+
+  it('answers CORS preflight requests', async () => {
+    const res = await app.request('/api/wallpaper/ocean/1.jpg', {
+      method: 'OPTIONS',
+      headers: {
+        'Origin': 'https://example.com',
+        'Access-Control-Request-Method': 'GET'
+      }
+    })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('access-control-allow-origin')).toBe('*')
+    expect(res.headers.get('access-control-allow-methods')).toContain('OPTIONS')
+    expect(res.headers.get('access-control-max-age')).toBe('86400')
+    expect(upstream.requests).toHaveLength(0)
+  })
+})
+
+describe('generic proxy', () => {
+  let upstream: FixtureFetch
+  let app: Hono
+
+  beforeEach(() => {
+    upstream = createFixtureFetch()
+    setUpstreamFetch(upstream.fetch)
+    resetCircuitBreakers()
+    app = createApp()
+  })
+
+  afterEach(() => {
+    setUpstreamFetch(null)
+  })
+
+  const proxy = (url: string) => app.request(`/api/proxy?url=${encodeURIComponent(url)}`)
+
+  it('proxies images from allowed hosts', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+
+    const res = await proxy(`${UPSTREAM}/wallpaper/ocean/1.jpg`)
+
+    expect(res.status).toBe(200)
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(JPEG_BYTES)
+  })
+
+  it('serves repeated requests for the same target from the cache', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, imageResponse())
+
+    const first = await proxy(`${UPSTREAM}/wallpaper/ocean/1.jpg`)
+    await first.arrayBuffer()
+    const second = await proxy(`${UPSTREAM}/wallpaper/ocean/1.jpg`)
+
+    expect(first.headers.get('x-cache-status')).toBe('miss')
+    expect(second.headers.get('x-cache-status')).toBe('hit')
+    expect(new Uint8Array(await second.arrayBuffer())).toEqual(JPEG_BYTES)
+    expect(upstream.requests).toHaveLength(1)
+  })
+
+  it.each([
+    'http://127.0.0.1/a.jpg',
+    'http://10.0.0.8/a.jpg',
+    'http://169.254.169.254/latest/a.jpg',
+    'http://[::1]/a.jpg',
+    'http://[::ffff:127.0.0.1]/a.jpg',
+    'http://2130706433/a.jpg',
+    'http://0x7f000001/a.jpg',
+    'http://0x7f.0.0.1/a.jpg',
+    'http://localhost/a.jpg'
+  ])('rejects the private address %s', async url => {
+    const res = await proxy(url)
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toEqual({ error: 'Forbidden', reason: 'Private address' })
+    expect(upstream.requests).toHaveLength(0)
+  })
+
+  it('rejects hosts outside the allowlist', async () => {
+    const res = await proxy('https://attacker.example.com/a.jpg')
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toEqual({ error: 'Forbidden', reason: 'Host not allowed' })
+    expect(upstream.requests).toHaveLength(0)
+  })
+
+  it('rejects non-standard ports and credentials', async () => {
+    const host = new URL(UPSTREAM).host
+    const responses = await Promise.all([
+      proxy(`https://${host}:8443/a.jpg`),
+      proxy(`https://user:pass@${host}/a.jpg`)
+    ])
+
+    expect(await Promise.all(responses.map(async res => (await res.json()).reason)))
+      .toEqual(['Non-standard port', 'Credentials are not allowed'])
+    expect(upstream.requests).toHaveLength(0)
+  })
+
+  it('refuses redirects from an allowed host to a private address', async () => {
+    upstream.on(`${UPSTREAM}/wallpaper/ocean/1.jpg`, new Response(null, {
+      status: 302,
+      headers: { Location: 'http://169.254.169.254/latest/meta-data.jpg' }
+    }))
+
+    const res = await proxy(`${UPSTREAM}/wallpaper/ocean/1.jpg`)
+
+    expect(res.status).toBe(502)
+    expect(upstream.requests.map(request => request.url)).toEqual([`${UPSTREAM}/wallpaper/ocean/1.jpg`])
+  })
+})
+
+describe('signed proxy URLs', () => {
+  const signing = { secret: 'test-secret', expiresIn: 60 }
+  const url = 'https://proxy.example.com/api/wallpaper/ocean/1.jpg?w=480'
+
+  it('verifies a URL it signed', async () => {
+    const signed = await signProxyUrl(url, signing)
+
+    expect(new URL(signed).searchParams.get('sig')).toMatch(/^[\w-]{43}$/)
+    expect(await verifyProxyUrl(signed, signing.secret)).toEqual({ valid: true })
+  })
+
+  it('rejects tampered and expired URLs', async () => {
+    const signed = await signProxyUrl(url, signing, 0)
+    const tampered = signed.replace('w=480', 'w=4096')
+
+    expect(await verifyProxyUrl(tampered, signing.secret, 0)).toEqual({ valid: false, reason: 'Invalid signature' })
+    expect(await verifyProxyUrl(signed, 'other-secret', 0)).toEqual({ valid: false, reason: 'Invalid signature' })
+    expect(await verifyProxyUrl(signed, signing.secret, 61 * 1000)).toEqual({ valid: false, reason: 'Signature expired' })
+  })
+
+  describe('on a source that requires signatures', () => {
+    const rawSrc = `${UPSTREAM}/wallpaper/ocean/1.jpg`
+    const config = { baseUrl: 'https://proxy.example.com', originalDomain: getConfig().upstream.infinityDomain, proxyPath: '/api/wallpaper' }
+    let upstream: FixtureFetch
+    let app: Hono
+
+    beforeEach(() => {
+      upstream = createFixtureFetch()
+      upstream.on(rawSrc, imageResponse())
+      setUpstreamFetch(upstream.fetch)
+      resetCircuitBreakers()
+      const source = { ...getProxySource('wallpaper')!, requireSignature: true }
+      app = createProxyApp(source, { cache: new MemoryImageCache(), signingSecret: signing.secret })
+    })
+
+    afterEach(() => {
+      setUpstreamFetch(null)
+    })
+
+    it('serves URLs signed by the URL helpers', async () => {
+      const proxyUrl = await convertToProxyUrlSigned(rawSrc, signing, config)
+      const optimizedUrl = await buildOptimizedUrlSigned(rawSrc, { quality: 80 }, signing, config)
+
+      expect(await verifyProxyUrl(proxyUrl!, signing.secret)).toEqual({ valid: true })
+      expect(await verifyProxyUrl(optimizedUrl, signing.secret)).toEqual({ valid: true })
+      expect((await app.request(proxyUrl!)).status).toBe(200)
+    })
+
+    it('returns 403 for missing, tampered and expired signatures', async () => {
+      const signed = (await convertToProxyUrlSigned(rawSrc, signing, config))!
+      const expired = (await convertToProxyUrlSigned(rawSrc, { ...signing, expiresIn: 0 }, config))!
+
+      const responses = await Promise.all([
+        app.request(`${config.baseUrl}/api/wallpaper/ocean/1.jpg`),
+        app.request(signed.replace('/1.jpg', '/2.jpg')),
+        app.request(expired)
+      ])
+
+      expect(responses.map(res => res.status)).toEqual([403, 403, 403])
+      expect(await Promise.all(responses.map(async res => (await res.json()).reason)))
+        .toEqual(['Missing signature', 'Invalid signature', 'Signature expired'])
+      expect(upstream.requests).toHaveLength(0)
+    })
+  })
+})
+
+describe('bing-origin proxy', () => {
+  const BING = `https://${getProxySource('bing-origin')!.originalDomain}`
+  let upstream: FixtureFetch
+  let app: Hono
+
+  beforeEach(() => {
+    upstream = createFixtureFetch()
+    upstream.on(`${BING}/th`, imageResponse())
+    setUpstreamFetch(upstream.fetch)
+    resetCircuitBreakers()
+    app = createApp()
+  })
+
+  afterEach(() => {
+    setUpstreamFetch(null)
+  })
+
+  it('places the path in the id query parameter', async () => {
+    const res = await app.request('/api/bing-origin/OHR.Ocean_1920x1080.jpg')
+
+    expect(res.status).toBe(200)
+    expect(upstream.requests[0].url).toBe(`${BING}/th?id=OHR.Ocean_1920x1080.jpg`)
+  })
+
+  it('reports the mirror that served the image on later cache hits', async () => {
+    const mirror = getProxySource('bing-origin')!.mirrors![0]
+    upstream.on(`${BING}/th`, new Response('error', { status: 500 }))
+    upstream.on(`https://${mirror}/th`, imageResponse())
+
+    const first = await app.request('/api/bing-origin/OHR.Ocean_1920x1080.jpg')
+    await first.arrayBuffer()
+    const cached = await app.request('/api/bing-origin/OHR.Ocean_1920x1080.jpg')
+
+    expect(first.headers.get('x-upstream')).toBe(mirror)
+    expect(cached.headers.get('x-cache-status')).toBe('hit')
+    expect(cached.headers.get('x-upstream')).toBe(mirror)
+  })
+
+  it.each([
+    ['a literal &', '/api/bing-origin/OHR.Ocean_1920x1080.jpg&w=9999.jpg'],
+    ['encoded & and #', '/api/bing-origin/OHR.Ocean_1920x1080.jpg%26w%3D9999%23.jpg']
+  ])('encodes %s instead of adding upstream query parameters', async (_, path) => {
+    await app.request(path)
+
+    const url = new URL(upstream.requests[0].url)
+    expect([...url.searchParams.keys()]).toEqual(['id'])
+    expect(url.hash).toBe('')
+    expect(url.searchParams.get('id')).toMatch(/^OHR\.Ocean_1920x1080\.jpg&w=9999#?\.jpg$/)
+  })
+})
+
+describe('proxy sources', () => {
+  it('follow the current configuration', () => {
+    const config = getConfig()
+    setConfig({
+      ...config,
+      publicBaseUrl: 'https://img.example.com',
+      upstream: { ...config.upstream, infinityDomain: 'mirror.example.com' }
+    })
+
+    try {
+      expect(getProxySource('wallpaper')?.originalDomain).toBe('mirror.example.com')
+      expect(getProxySources()).toBe(getProxySources())
+      expect(convertToProxyUrl('https://mirror.example.com/wallpaper/ocean/1.jpg'))
+        .toBe('https://img.example.com/api/wallpaper/ocean/1.jpg')
+    } finally {
+      setConfig(config)
+    }
+  })
+})
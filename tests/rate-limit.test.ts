@@ -0,0 +1,41 @@
+// 限流中间件：按客户端 IP 计数，客户端可改写的请求头不能绕过限流
+import { describe, it, expect } from 'vitest'
+import { Hono } from 'hono'
+import { rateLimit, MemoryRateLimitStore } from '../lib/rate-limit'
+
+function createApp() {
+  const app = new Hono()
+  app.use('*', rateLimit({ name: 'test', limit: 2, window: 60, store: new MemoryRateLimitStore(), apiKeys: [] }))
+  app.get('/', c => c.text('ok'))
+  return app
+}
+
+describe('rateLimit', () => {
+  it('limits by x-real-ip regardless of x-forwarded-for', async () => {
+    const app = createApp()
+    const statuses: number[] = []
+
+    for (let i = 0; i < 3; i++) {
+      const res = await app.request('/', {
+        headers: { 'X-Real-IP': '203.0.113.7', 'X-Forwarded-For': `198.51.100.${i}, 203.0.113.7` }
+      })
+      statuses.push(res.status)
+    }
+
+    expect(statuses).toEqual([200, 200, 429])
+  })
+
+  it('uses the last x-forwarded-for hop when no platform header is present', async () => {
+    const app = createApp()
+    const statuses: number[] = []
+
+    for (let i = 0; i < 3; i++) {
+      const res = await app.request('/', {
+        headers: { 'X-Forwarded-For': `198.51.100.${i}, 203.0.113.7` }
+      })
+      statuses.push(res.status)
+    }
+
+    expect(statuses).toEqual([200, 200, 429])
+  })
+})
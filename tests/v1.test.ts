@@ -0,0 +1,383 @@
+// v1 JSON 接口：壁纸数据由内联数据源提供，Bing 接口由上游替身提供
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from 'vitest'
+import { app } from '../api/v1/index'
+import { setCatalogProviders, InlineCatalogProvider } from '../lib/catalog-providers'
+import { KVBingArchiveStore, RestKVStore, setBingArchiveStore } from '../lib/bing'
+import { setUpstreamFetch } from '../lib/upstream'
+import { getConfig, setConfig } from '../lib/config'
+import { buildVersionEtag, getSigningWindow } from '../lib/conditional'
+import { encodeCursor, decodeCursor } from '../lib/cursor'
+import { createFixtureFetch, jsonResponse } from './fixtures'
+
+const UPSTREAM = `https://${getConfig().upstream.infinityDomain}`
+const BING_API = `${getConfig().upstream.bingApiOrigin}/HPImageArchive.aspx`
+
+const wallpaper = (id: string, source: string, rate: number) => ({
+  _id: id,
+  imgId: `img-${id}`,
+  source,
+  src: { rawSrc: `${UPSTREAM}/wallpaper/${source.toLowerCase()}/${id}.jpg` },
+  colors: ['#1a2b3c'],
+  rate,
+  like: 0,
+  dimensions: '1920x1080'
+})
+
+const WALLPAPERS = [
+  wallpaper('w1', 'Ocean', 5),
+  wallpaper('w2', 'Ocean', 4),
+  wallpaper('w3', 'City', 3),
+  wallpaper('w4', 'Ocean', 2),
+  wallpaper('w5', 'City', 1)
+]
+
+const bingImage = (startdate: string, name: string) => ({
+  startdate,
+  fullstartdate: `${startdate}0800`,
+  enddate: startdate,
+  url: `/th?id=OHR.${name}_1920x1080.jpg`,
+  urlbase: `/th?id=OHR.${name}`,
+  copyright: `${name} (© Photographer)`,
+  copyrightlink: 'https://www.bing.com/search?q=test',
+  title: `${name} title`,
+  quiz: '',
+  wp: true,
+  hsh: `hash-${name}`,
+  drk: 1,
+  top: 1,
+  bot: 1,
+  hs: []
+})
+
+const upstream = createFixtureFetch()
+
+function get(path: string) {
+  return app.request(`/api/v1${path}`)
+}
+
+beforeAll(() => {
+  setCatalogProviders([new InlineCatalogProvider(WALLPAPERS)])
+  setUpstreamFetch(upstream.fetch)
+
+  // 按市场返回不同的壁纸，便于确认 mkt 被传给上游
+  upstream.on(BING_API, request => {
+    const market = new URL(request.url).searchParams.get('mkt') || ''
+    const suffix = market.replace('-', '').toUpperCase()
+    return jsonResponse({
+      images: [
+        bingImage('20251019', `Ocean_${suffix}1`),
+        bingImage('20251018', `Forest_${suffix}2`)
+      ]
+    })
+  })
+})
+
+afterAll(() => {
+  setCatalogProviders(null)
+  setUpstreamFetch(null)
+})
+
+beforeEach(() => {
+  upstream.requests.length = 0
+})
+
+describe('GET /getWallpaperList', () => {
+  it('returns the first page with proxied URLs', async () => {
+    const res = await get('/getWallpaperList?pageSize=2')
+
+    expect(res.status).toBe(200)
+    const { code, data } = await res.json()
+    expect(code).toBe(200)
+    expect(data).toMatchObject({ total: 5, page: 1, totalPage: 3 })
+    expect(data.list.map((item: { _id: string }) => item._id)).toEqual(['w1', 'w2'])
+    expect(data.list[0].src.proxyUrl).toContain('/api/wallpaper/ocean/w1.jpg')
+    expect(data.nextCursor).toEqual(expect.any(String))
+  })
+
+  it('returns an empty list for a page beyond the last one', async () => {
+    const res = await get('/getWallpaperList?pageSize=2&page=4')
+
+    expect(res.status).toBe(200)
+    const { data } = await res.json()
+    expect(data).toMatchObject({ list: [], total: 5, page: 4, totalPage: 3, nextCursor: null })
+  })
+
+  it('clamps pageSize into the allowed range', async () => {
+    const { maxPageSize } = getConfig().pagination
+
+    const large = await (await get(`/getWallpaperList?pageSize=${maxPageSize + 1}`)).json()
+    expect(large.data).toMatchObject({ totalPage: 1 })
+    expect(large.data.list).toHaveLength(5)
+
+    const small = await (await get('/getWallpaperList?pageSize=0')).json()
+    expect(small.data).toMatchObject({ totalPage: 5 })
+    expect(small.data.list).toHaveLength(1)
+  })
+
+  it('rejects non-numeric page and pageSize', async () => {
+    const res = await get('/getWallpaperList?page=abc&pageSize=abc')
+
+    expect(res.status).toBe(400)
+    const body = await res.json()
+    expect(body).toMatchObject({ code: 400, data: null, message: 'Invalid query parameters' })
+    expect(body.errors.map((error: { field: string }) => error.field)).toEqual(['page', 'pageSize'])
+  })
+
+  it('rejects page 0', async () => {
+    const res = await get('/getWallpaperList?page=0')
+
+    expect(res.status).toBe(400)
+    expect((await res.json()).errors).toEqual([{ field: 'page', message: expect.any(String) }])
+  })
+
+  it('follows nextCursor to the following pages', async () => {
+    const ids: string[] = []
+    let path = '/getWallpaperList?pageSize=2'
+
+    for (let i = 0; i < 3; i++) {
+      const { data } = await (await get(path)).json()
+      ids.push(...data.list.map((item: { _id: string }) => item._id))
+      if (!data.nextCursor) break
+      path = `/getWallpaperList?pageSize=2&cursor=${encodeURIComponent(data.nextCursor)}`
+    }
+
+    expect(ids).toEqual(['w1', 'w2', 'w3', 'w4', 'w5'])
+  })
+
+  describe('cursors without a snapshot of their version', () => {
+    // 模拟其他实例生成、或版本已在本实例淘汰的游标
+    async function foreignCursor(path: string, changes: { k?: string } = {}) {
+      const { data } = await (await get(path)).json()
+      const payload = decodeCursor(data.nextCursor)!
+      return encodeURIComponent(encodeCursor({ ...payload, v: 'other-version', ...changes }))
+    }
+
+    it('continue after the last item of the previous page in the current catalog', async () => {
+      const cursor = await foreignCursor('/getWallpaperList?pageSize=2')
+      const res = await get(`/getWallpaperList?pageSize=2&cursor=${cursor}`)
+
+      expect(res.status).toBe(200)
+      const { data } = await res.json()
+      expect(data.list.map((item: { _id: string }) => item._id)).toEqual(['w3', 'w4'])
+      expect(data.page).toBe(2)
+    })
+
+    it('return 410 when the last item no longer exists', async () => {
+      const cursor = await foreignCursor('/getWallpaperList?pageSize=2', { k: 'removed' })
+      const res = await get(`/getWallpaperList?pageSize=2&cursor=${cursor}`)
+
+      expect(res.status).toBe(410)
+    })
+
+    it('return 410 for random order', async () => {
+      const cursor = await foreignCursor('/getWallpaperList?pageSize=2&sort=random&seed=abc')
+      const res = await get(`/getWallpaperList?pageSize=2&sort=random&seed=abc&cursor=${cursor}`)
+
+      expect(res.status).toBe(410)
+    })
+  })
+
+  it('rejects a malformed cursor', async () => {
+    const res = await get('/getWallpaperList?cursor=not-a-cursor')
+
+    expect(res.status).toBe(400)
+    expect((await res.json()).errors).toEqual([{ field: 'cursor', message: 'Invalid cursor' }])
+  })
+
+  it('filters by source', async () => {
+    const { data } = await (await get('/getWallpaperList?source=city')).json()
+
+    expect(data.total).toBe(2)
+    expect(data.list.map((item: { _id: string }) => item._id)).toEqual(['w3', 'w5'])
+  })
+
+  it('filters by several comma-separated sources', async () => {
+    const { data } = await (await get('/getWallpaperList?source=City,Ocean&sort=rate&order=asc')).json()
+
+    expect(data.list.map((item: { _id: string }) => item._id)).toEqual(['w5', 'w4', 'w3', 'w2', 'w1'])
+  })
+
+  it('returns an empty list for an unknown source', async () => {
+    const { data } = await (await get('/getWallpaperList?source=Desert')).json()
+
+    expect(data).toMatchObject({ list: [], total: 0, totalPage: 0, nextCursor: null })
+  })
+})
+
+describe('configuration', () => {
+  it('validates queries against the current configuration', async () => {
+    const config = getConfig()
+    setConfig({ ...config, pagination: { defaultPageSize: 1, maxPageSize: 2 } })
+
+    try {
+      const { data } = await (await get('/getWallpaperList?pageSize=5')).json()
+      expect(data.list).toHaveLength(2)
+
+      const docs = await (await get('/openapi.json')).json()
+      const pageSize = docs.paths['/api/v1/getWallpaperList'].get.parameters
+        .find((param: { name: string }) => param.name === 'pageSize')
+      expect(pageSize.schema).toMatchObject({ maximum: 2, default: 1 })
+    } finally {
+      setConfig(config)
+    }
+  })
+})
+
+describe('GET /getSources', () => {
+  it('lists the distinct sources', async () => {
+    const { data } = await (await get('/getSources')).json()
+
+    expect(data).toEqual(['City', 'Ocean'])
+  })
+})
+
+describe('GET /getBingWallpaperList', () => {
+  it('adds proxied variants for each resolution', async () => {
+    const res = await get('/getBingWallpaperList?mkt=zh-CN')
+
+    expect(res.status).toBe(200)
+    const { data } = await res.json()
+    expect(data).toMatchObject({ market: 'zh-CN', total: 2 })
+    expect(data.url).toMatch(/\/api\/bing-origin\/OHR\.Ocean_ZHCN1_1920x1080\.jpg$/)
+
+    const [first] = data.list
+    expect(first.startdate).toBe('20251019')
+    expect(first.variants['1920x1080']).toMatch(/\/api\/bing-origin\/OHR\.Ocean_ZHCN1_1920x1080\.jpg$/)
+    expect(first.variants.UHD).toMatch(/\/api\/bing-origin\/OHR\.Ocean_ZHCN1_UHD\.jpg$/)
+
+    const request = new URL(upstream.requests[0].url)
+    expect(request.searchParams.get('mkt')).toBe('zh-CN')
+    expect(request.searchParams.get('format')).toBe('js')
+  })
+
+  it('uses the default market when mkt is omitted', async () => {
+    const { data } = await (await get('/getBingWallpaperList')).json()
+
+    expect(data.market).toBe(getConfig().bing.defaultMarket)
+  })
+
+  it('rejects out-of-range idx and n', async () => {
+    const res = await get('/getBingWallpaperList?idx=9&n=0')
+
+    expect(res.status).toBe(400)
+    const body = await res.json()
+    expect(body.errors.map((error: { field: string }) => error.field)).toEqual(['idx', 'n'])
+    expect(upstream.requests).toHaveLength(0)
+  })
+})
+
+describe('GET /bing/:date', () => {
+  it('returns the caption of the latest wallpaper', async () => {
+    const res = await get('/bing/today/caption?mkt=ja-JP')
+
+    expect(res.status).toBe(200)
+    expect((await res.json()).data).toEqual({
+      date: '20251019',
+      market: 'ja-JP',
+      title: 'Ocean_JAJP1 title',
+      copyright: 'Ocean_JAJP1 (© Photographer)',
+      copyrightlink: 'https://www.bing.com/search?q=test'
+    })
+  })
+
+  it('redirects to the requested resolution', async () => {
+    const res = await get('/bing/20251018?mkt=ja-JP&res=UHD')
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('location')).toMatch(/\/api\/bing-origin\/OHR\.Forest_JAJP2_UHD\.jpg$/)
+  })
+
+  it('returns 404 for a date missing from the archive', async () => {
+    const res = await get('/bing/20200101/caption?mkt=ja-JP')
+
+    expect(res.status).toBe(404)
+  })
+})
+
+describe('KV Bing archive', () => {
+  const KV_URL = 'https://kv.example.com'
+  const data = new Map<string, string>()
+  const kvRequests = () => upstream.requests.filter(request => request.url.startsWith(KV_URL))
+
+  beforeAll(() => {
+    // Upstash REST 协议的替身：/get、/set 与根路径上的 MGET 命令
+    upstream.on(KV_URL, request => {
+      if (request.headers.get('authorization') !== 'Bearer kv-token') {
+        return jsonResponse({ error: 'Unauthorized' }, 401)
+      }
+      const [, command, key] = new URL(request.url).pathname.split('/')
+      if (command === 'set') {
+        data.set(decodeURIComponent(key), request.body || '')
+        return jsonResponse({ result: 'OK' })
+      }
+      if (command === 'get') {
+        return jsonResponse({ result: data.get(decodeURIComponent(key)) ?? null })
+      }
+      const [name, ...keys]: string[] = JSON.parse(request.body || '[]')
+      return name === 'MGET'
+        ? jsonResponse({ result: keys.map(item => data.get(item) ?? null) })
+        : jsonResponse({ error: 'Unknown command' }, 400)
+    })
+  })
+
+  beforeEach(() => {
+    data.clear()
+  })
+
+  afterAll(() => {
+    setBingArchiveStore(null)
+  })
+
+  it('persists entries through the KV REST API', async () => {
+    const store = new KVBingArchiveStore(new RestKVStore(KV_URL, 'kv-token'))
+
+    await store.save('en-US', [bingImage('20250101', 'Snow'), bingImage('20250103', 'Lake')])
+
+    expect([...data.keys()].sort()).toEqual(['bing-archive:en-US:20250101', 'bing-archive:en-US:20250103'])
+    const items = await store.query('en-US', '20250101', '20250105')
+    expect(items.map(item => item.startdate)).toEqual(['20250103', '20250101'])
+  })
+
+  it('reads a year of archive in a few batched requests', async () => {
+    const store = new KVBingArchiveStore(new RestKVStore(KV_URL, 'kv-token'))
+    await store.save('en-US', [bingImage('20250101', 'Snow')])
+    upstream.requests.length = 0
+
+    const items = await store.query('en-US', '20250101', '20260101')
+
+    expect(items.map(item => item.startdate)).toEqual(['20250101'])
+    expect(kvRequests()).toHaveLength(4)
+    expect(kvRequests().every(request => request.method === 'POST')).toBe(true)
+  })
+
+  it('caches archive range queries between requests', async () => {
+    setBingArchiveStore(new KVBingArchiveStore(new RestKVStore(KV_URL, 'kv-token')))
+    const path = '/getBingWallpaperList?mkt=fr-FR&from=20251001&to=20251019'
+
+    const first = await (await get(path)).json()
+    const reads = kvRequests().filter(request => request.body?.startsWith('["MGET"')).length
+    const second = await (await get(path)).json()
+
+    expect(first.data.list.map((item: { startdate: string }) => item.startdate)).toEqual(['20251019', '20251018'])
+    expect(second.data.list).toEqual(first.data.list)
+    expect(reads).toBe(1)
+    expect(kvRequests().filter(request => request.body?.startsWith('["MGET"'))).toHaveLength(1)
+  })
+})
+
+describe('ETag with signed URLs', () => {
+  it('changes when the signing window rolls over', () => {
+    const config = getConfig()
+    const url = 'https://proxy.example.com/api/v1/getWallpaperList?page=1'
+    setConfig({ ...config, signing: { ...config.signing, secret: 'test-secret', ttl: 60 } })
+
+    try {
+      expect(getSigningWindow(59 * 1000)).toBe(getSigningWindow(0))
+      expect(getSigningWindow(60 * 1000)).not.toBe(getSigningWindow(0))
+      expect(buildVersionEtag('v1', url, getSigningWindow(60 * 1000)))
+        .not.toBe(buildVersionEtag('v1', url, getSigningWindow(0)))
+    } finally {
+      setConfig(config)
+    }
+  })
+})